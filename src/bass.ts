@@ -0,0 +1,136 @@
+/**
+ * Bassline extraction: low-pass filtering and low-frequency pitch tracking
+ */
+
+import { Note, BassExtractionOptions } from "./types";
+import { estimatePitch, frequencyToCents, frequencyToMidi, midiToNote, noteToMidi } from "./pitch";
+import { resample, msToSamples } from "./resample";
+import { ATTACK_WINDOW, applyAttackVelocities, estimateArticulation } from "./melody";
+
+// Q factors of the two biquad sections of a 4th-order Butterworth filter
+const BUTTERWORTH_Q = [0.5412, 1.3066];
+
+/**
+ * 4th-order Butterworth low-pass filter (two cascaded biquads)
+ */
+export function lowPassFilter(data: Float32Array, sampleRate: number, cutoff: number): Float32Array {
+  let output = Float32Array.from(data);
+  const w0 = (2 * Math.PI * Math.min(cutoff, sampleRate * 0.49)) / sampleRate;
+  const cos = Math.cos(w0);
+
+  for (const q of BUTTERWORTH_Q) {
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    const b0 = (1 - cos) / 2 / a0;
+    const b1 = (1 - cos) / a0;
+    const a1 = (-2 * cos) / a0;
+    const a2 = (1 - alpha) / a0;
+
+    const input = output;
+    output = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+      const y = b0 * input[i] + b1 * x1 + b0 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1;
+      x1 = input[i];
+      y2 = y1;
+      y1 = y;
+      output[i] = y;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Extract the bass line: low-pass filter, decimate, and track fundamentals in
+ * the bass range, segmenting notes where the pitch changes or drops out
+ */
+export function extractBass(data: Float32Array, sampleRate: number, options: BassExtractionOptions = {}): Note[] {
+  const minFreq = options.minFreq ?? 30;
+  const maxFreq = options.maxFreq ?? 250;
+  const cutoff = options.cutoff ?? maxFreq * 1.2;
+  const analysisRate = Math.min(sampleRate, options.analysisSampleRate ?? 4000);
+  const amplitudeThreshold = options.amplitudeThreshold ?? 0.01;
+  const minDuration = (options.minNoteDuration ?? 100) / 1000;
+
+  const filtered = resample(lowPassFilter(data, sampleRate, cutoff), sampleRate, analysisRate);
+  // Frames must hold at least two periods of the lowest frequency
+  const frameSize = Math.max(
+    msToSamples(options.frameSizeMs ?? 100, analysisRate),
+    Math.ceil((2 * analysisRate) / minFreq)
+  );
+  const hopSize = msToSamples(options.hopSizeMs ?? 25, analysisRate);
+
+  // The current note, with its attack energy and amplitude-weighted cents deviation
+  const notes: Note[] = [];
+  const attacks: number[] = [];
+  let current = null as { note: string; time: number; attack: number; centsSum: number; centsWeight: number } | null;
+  const close = (time: number) => {
+    if (current && time - current.time > minDuration) {
+      notes.push({
+        note: current.note,
+        time: current.time,
+        duration: time - current.time,
+        cents: current.centsWeight > 0 ? Math.round((current.centsSum / current.centsWeight) * 10) / 10 : 0,
+      });
+      attacks.push(current.attack);
+    }
+    current = null;
+  };
+
+  for (let i = 0; i + frameSize <= filtered.length; i += hopSize) {
+    const frame = filtered.subarray(i, i + frameSize);
+    const time = i / analysisRate;
+
+    let rms = 0;
+    for (let j = 0; j < frame.length; j++) {
+      rms += frame[j] * frame[j];
+    }
+    rms = Math.sqrt(rms / frame.length);
+
+    const estimate = rms < amplitudeThreshold
+      ? null
+      : estimatePitch(frame, analysisRate, {
+          minFreq,
+          maxFreq,
+          algorithm: options.algorithm ?? "yin",
+          voicingThreshold: options.voicingThreshold ?? 0.5,
+        });
+
+    if (!estimate || !estimate.voiced) {
+      close(time);
+      continue;
+    }
+
+    const note = midiToNote(frequencyToMidi(estimate.frequency, options.referencePitch));
+    if (note !== current?.note) {
+      close(time);
+      current = { note, time, attack: 0, centsSum: 0, centsWeight: 0 };
+    }
+    if (time - current.time < ATTACK_WINDOW) current.attack = Math.max(current.attack, rms);
+    current.centsSum += frequencyToCents(estimate.frequency, options.referencePitch) * rms;
+    current.centsWeight += rms;
+  }
+  close(filtered.length / analysisRate);
+
+  return estimateArticulation(applyAttackVelocities(notes, attacks));
+}
+
+/**
+ * Drop melody notes that double the bass (same pitch or an octave above,
+ * overlapping it for most of their length)
+ */
+export function excludeBassNotes(melody: Note[], bass: Note[]): Note[] {
+  return melody.filter(note => {
+    const midi = noteToMidi(note.note);
+    const start = note.time;
+    const end = note.time + (note.duration || 0);
+    return !bass.some(b => {
+      const interval = midi - noteToMidi(b.note);
+      if (interval !== 0 && interval !== 12) return false;
+      const overlap = Math.min(end, b.time + (b.duration || 0)) - Math.max(start, b.time);
+      return overlap > 0.5 * (end - start);
+    });
+  });
+}
@@ -0,0 +1,235 @@
+/**
+ * Beat tracking using spectral-flux onsets and dynamic programming (Ellis, 2007)
+ */
+
+import { BeatTrackingOptions, BeatTrackingResult } from "./types";
+import { computeDetectionFunction, standardizeEnvelope } from "./onset";
+
+// Upper edge of the band used to find kick-heavy downbeats
+const LOW_BAND_HZ = 200;
+
+/**
+ * Standardized spectral flux, one value per hop, for the full spectrum and
+ * for the low band, with the frame rate and the time of the first value
+ */
+function spectralFluxEnvelopes(
+  data: Float32Array,
+  sampleRate: number,
+  frameSizeMs: number,
+  hopSizeMs: number
+): { full: number[]; low: number[]; frameRate: number; startTime: number } {
+  const full = computeDetectionFunction(data, sampleRate, { method: "spectralFlux", frameSizeMs, hopSizeMs });
+  const low = computeDetectionFunction(data, sampleRate, {
+    method: "spectralFlux",
+    frameSizeMs,
+    hopSizeMs,
+    maxFrequency: LOW_BAND_HZ,
+  });
+  return {
+    full: standardizeEnvelope(full.values),
+    low: standardizeEnvelope(low.values),
+    frameRate: full.frameRate,
+    startTime: full.startTime,
+  };
+}
+
+/**
+ * Onset strength envelope (standardized spectral flux) with its frame rate
+ */
+export function computeOnsetEnvelope(
+  data: Float32Array,
+  sampleRate: number,
+  frameSizeMs: number = 46.4,
+  hopSizeMs: number = 11.6
+): { envelope: number[]; frameRate: number } {
+  const { full, frameRate } = spectralFluxEnvelopes(data, sampleRate, frameSizeMs, hopSizeMs);
+  return { envelope: full, frameRate };
+}
+
+/**
+ * Estimate the beat period (in fractional envelope frames) from the envelope
+ * autocorrelation, weighted by a log-Gaussian prior centred on 120 BPM
+ */
+export function estimateBeatPeriod(envelope: number[], frameRate: number, minBpm: number, maxBpm: number): number {
+  const minLag = Math.max(1, Math.floor((60 / maxBpm) * frameRate));
+  const maxLag = Math.min(envelope.length - 1, Math.ceil((60 / minBpm) * frameRate));
+  if (maxLag < minLag) return (60 / 120) * frameRate;
+
+  const scores: number[] = [];
+  let bestIndex = 0;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let corr = 0;
+    for (let i = 0; i + lag < envelope.length; i++) {
+      corr += envelope[i] * envelope[i + lag];
+    }
+    const bpm = (60 * frameRate) / lag;
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120), 2));
+    scores.push(prior * corr);
+    if (scores[scores.length - 1] > scores[bestIndex]) bestIndex = scores.length - 1;
+  }
+
+  // Parabolic interpolation for sub-frame resolution
+  let offset = 0;
+  if (bestIndex > 0 && bestIndex < scores.length - 1) {
+    const denominator = scores[bestIndex - 1] - 2 * scores[bestIndex] + scores[bestIndex + 1];
+    if (denominator < 0) {
+      offset = (scores[bestIndex - 1] - scores[bestIndex + 1]) / (2 * denominator);
+    }
+  }
+
+  return minLag + bestIndex + offset;
+}
+
+/**
+ * Convert a time in seconds to a (fractional) beat position on a beat grid
+ */
+export function timeToBeat(time: number, beats: number[]): number {
+  if (beats.length < 2) return 0;
+
+  if (time <= beats[0]) {
+    return (time - beats[0]) / (beats[1] - beats[0]);
+  }
+  for (let i = 1; i < beats.length; i++) {
+    if (time < beats[i]) {
+      return i - 1 + (time - beats[i - 1]) / (beats[i] - beats[i - 1]);
+    }
+  }
+  const last = beats.length - 1;
+  return last + (time - beats[last]) / (beats[last] - beats[last - 1]);
+}
+
+/**
+ * Convert a (fractional) beat position on a beat grid back to seconds
+ */
+export function beatToTime(beat: number, beats: number[]): number {
+  if (beats.length < 2) return 0;
+
+  const last = beats.length - 1;
+  const index = Math.min(Math.max(Math.floor(beat), 0), last - 1);
+  return beats[index] + (beat - index) * (beats[index + 1] - beats[index]);
+}
+
+/**
+ * Split every interval of a beat grid into equal parts, e.g. dotted quarter
+ * beats into eighth notes
+ */
+export function subdivideBeats(beats: number[], parts: number): number[] {
+  if (beats.length < 2) return beats;
+  return Array.from({ length: (beats.length - 1) * parts + 1 }, (_, i) => beatToTime(i / parts, beats));
+}
+
+/**
+ * Extend a beat grid backwards by a number of beats at its first interval,
+ * e.g. so that it starts on a downbeat
+ */
+export function prependBeats(beats: number[], count: number): number[] {
+  if (beats.length < 2 || count <= 0) return beats;
+  const interval = beats[1] - beats[0];
+  return [...Array.from({ length: count }, (_, i) => beats[0] - (count - i) * interval), ...beats];
+}
+
+/**
+ * Extend a beat grid backwards so that it starts on its first downbeat's bar,
+ * putting the beats ahead of that downbeat in a pickup
+ */
+export function alignToDownbeat(beats: number[], downbeats: number[], beatsPerBar: number): number[] {
+  const pickup = downbeats.length > 0 ? beats.indexOf(downbeats[0]) : 0;
+  return prependBeats(beats, pickup > 0 ? beatsPerBar - pickup : 0);
+}
+
+/**
+ * Track beats and downbeats in audio data
+ */
+export function trackBeats(data: Float32Array, sampleRate: number, options: BeatTrackingOptions = {}): BeatTrackingResult {
+  const minBpm = options.minBpm ?? 60;
+  const maxBpm = options.maxBpm ?? 200;
+  const frameSizeMs = options.frameSizeMs ?? 46.4;
+  const hopSizeMs = options.hopSizeMs ?? 11.6;
+  const beatsPerBar = options.beatsPerBar ?? 4;
+  const tightness = options.tightness ?? 100;
+
+  const { full: envelope, low: lowEnvelope, frameRate, startTime } = spectralFluxEnvelopes(
+    data,
+    sampleRate,
+    frameSizeMs,
+    hopSizeMs
+  );
+  if (envelope.length < 2) {
+    return { tempo: 120, beats: [], downbeats: [], confidence: 0, phase: 0 };
+  }
+
+  const period = estimateBeatPeriod(envelope, frameRate, minBpm, maxBpm);
+
+  // Dynamic programming: each frame's score is its onset strength plus the best
+  // predecessor score penalized by deviation from the expected beat period
+  const scores = new Float64Array(envelope.length);
+  const predecessors = new Int32Array(envelope.length).fill(-1);
+
+  for (let t = 0; t < envelope.length; t++) {
+    let bestPrev = -1;
+    let bestScore = 0;
+    const from = Math.max(0, t - Math.round(2 * period));
+    const to = t - Math.round(period / 2);
+    for (let prev = from; prev <= to; prev++) {
+      const penalty = tightness * Math.pow(Math.log((t - prev) / period), 2);
+      const score = scores[prev] - penalty;
+      if (bestPrev === -1 || score > bestScore) {
+        bestScore = score;
+        bestPrev = prev;
+      }
+    }
+    scores[t] = envelope[t] + (bestPrev >= 0 ? bestScore : 0);
+    predecessors[t] = bestPrev;
+  }
+
+  // Backtrack from the best-scoring frame within the final beat period
+  let last = envelope.length - 1;
+  for (let t = Math.max(0, envelope.length - Math.round(period)); t < envelope.length; t++) {
+    if (scores[t] > scores[last]) last = t;
+  }
+
+  const beatFrames: number[] = [];
+  for (let t = last; t >= 0; t = predecessors[t]) {
+    beatFrames.unshift(t);
+  }
+  // Onsets register when they reach the centre of the analysis window
+  const beats = beatFrames.map(frame => startTime + frame / frameRate);
+
+  // Tempo from the mean inter-beat interval
+  const beatInterval = beats.length > 1
+    ? (beats[beats.length - 1] - beats[0]) / (beats.length - 1)
+    : period / frameRate;
+  const tempo = Math.round(60 / beatInterval);
+
+  // Downbeats: the bar position whose beats carry the most onset strength,
+  // counting low-band (kick) onsets twice
+  let bestOffset = 0;
+  let bestStrength = -Infinity;
+  for (let offset = 0; offset < Math.min(beatsPerBar, beatFrames.length); offset++) {
+    let strength = 0;
+    let count = 0;
+    for (let i = offset; i < beatFrames.length; i += beatsPerBar) {
+      strength += envelope[beatFrames[i]] + lowEnvelope[beatFrames[i]];
+      count++;
+    }
+    if (count > 0 && strength / count > bestStrength) {
+      bestStrength = strength / count;
+      bestOffset = offset;
+    }
+  }
+  const downbeats = beats.filter((_, i) => i >= bestOffset && (i - bestOffset) % beatsPerBar === 0);
+
+  // Confidence: how much stronger onsets are on beats than on average
+  const meanOnset = envelope.reduce((a, b) => a + b, 0) / envelope.length;
+  const meanOnBeat = beatFrames.reduce((a, f) => a + envelope[f], 0) / Math.max(1, beatFrames.length);
+  const confidence = meanOnBeat > 0 ? Math.min(1, Math.max(0, 1 - meanOnset / meanOnBeat)) : 0;
+
+  return {
+    tempo,
+    beats,
+    downbeats,
+    confidence,
+    phase: beats.length > 0 ? beats[0] % beatInterval : 0,
+  };
+}
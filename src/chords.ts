@@ -2,93 +2,229 @@
  * Chord extraction and generation
  */
 
-import { Chord, Note } from "./types";
+import { Chord, Note, ChordQuality, ChordRecognitionOptions, ScaleName } from "./types";
 import { transposeNote } from "./pitch";
-import { getKeyTransposition, getChordNameInKey } from "./key";
+import { getKeyTransposition } from "./key";
+import { computeChromagram } from "./chroma";
+import { SCALE_INTERVALS, isMinorScale } from "./scales";
+
+const ROOT_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+// Intervals above the root, chord-name suffix and roman-numeral suffix per quality
+const CHORD_QUALITIES: Record<ChordQuality, { intervals: number[]; suffix: string; numeral: string; minor: boolean }> = {
+  maj: { intervals: [0, 4, 7], suffix: "", numeral: "", minor: false },
+  min: { intervals: [0, 3, 7], suffix: "m", numeral: "", minor: true },
+  dim: { intervals: [0, 3, 6], suffix: "dim", numeral: "°", minor: true },
+  aug: { intervals: [0, 4, 8], suffix: "aug", numeral: "+", minor: false },
+  sus2: { intervals: [0, 2, 7], suffix: "sus2", numeral: "sus2", minor: false },
+  sus4: { intervals: [0, 5, 7], suffix: "sus4", numeral: "sus4", minor: false },
+  "7": { intervals: [0, 4, 7, 10], suffix: "7", numeral: "7", minor: false },
+  maj7: { intervals: [0, 4, 7, 11], suffix: "maj7", numeral: "maj7", minor: false },
+  min7: { intervals: [0, 3, 7, 10], suffix: "m7", numeral: "7", minor: true },
+};
+
+// Scale-degree numerals for each semitone above the tonic
+const MAJOR_KEY_DEGREES = ["I", "bII", "II", "bIII", "III", "IV", "#IV", "V", "bVI", "VI", "bVII", "VII"];
+const MINOR_KEY_DEGREES = ["I", "bII", "II", "III", "#III", "IV", "#IV", "V", "VI", "#VI", "VII", "#VII"];
+
+const NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII"];
+
+// Scales chroma similarity into a log-likelihood for the Viterbi decoder
+const EMISSION_SHARPNESS = 20;
+
+interface ChordTemplate {
+  root: number;
+  quality: ChordQuality | null;
+  vector: number[];
+}
+
+function isMinorKey(key: string): boolean {
+  return key.includes("m") && !key.includes("maj");
+}
 
 /**
- * Extract chords based on detected key
+ * Degree numerals for each semitone above the tonic of a scale. Seven-note
+ * modes number their own tones and flatten the next degree for the rest;
+ * other scales borrow the major or minor table by their third.
+ */
+function scaleDegreeNames(scale: ScaleName): string[] {
+  if (scale === "major" || scale === "ionian") return MAJOR_KEY_DEGREES;
+  if (scale === "minor" || scale === "aeolian") return MINOR_KEY_DEGREES;
+
+  const intervals = SCALE_INTERVALS[scale];
+  if (intervals.length !== 7) return isMinorScale(scale) ? MINOR_KEY_DEGREES : MAJOR_KEY_DEGREES;
+
+  return Array.from({ length: 12 }, (_, semitone) => {
+    const index = intervals.indexOf(semitone);
+    if (index !== -1) return NUMERALS[index];
+    const next = intervals.findIndex(interval => interval > semitone);
+    return next === -1 ? `#${NUMERALS[6]}` : `b${NUMERALS[next]}`;
+  });
+}
+
+function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+function buildTemplates(qualities: ChordQuality[]): ChordTemplate[] {
+  const templates: ChordTemplate[] = [];
+  for (const quality of qualities) {
+    for (let root = 0; root < 12; root++) {
+      const vector = new Array(12).fill(0);
+      for (const interval of CHORD_QUALITIES[quality].intervals) {
+        vector[(root + interval) % 12] = 1;
+      }
+      templates.push({ root, quality, vector: normalizeVector(vector) });
+    }
+  }
+  return templates;
+}
+
+/**
+ * Get the roman-numeral degree of a chord relative to a key, numbered
+ * along the key's scale when one is given
+ */
+export function getChordDegree(root: number, quality: ChordQuality, key: string, scale?: ScaleName): string {
+  const tonic = getKeyTransposition("C", key);
+  const interval = ((root - tonic) % 12 + 12) % 12;
+  const degrees = scaleDegreeNames(scale ?? (isMinorKey(key) ? "minor" : "major"));
+  const { minor, numeral } = CHORD_QUALITIES[quality];
+  const degree = degrees[interval];
+  return (minor ? degree.replace(/[IV]+/, m => m.toLowerCase()) : degree) + numeral;
+}
+
+/**
+ * Parse a chord name such as "F#m7" into root pitch class and quality
+ */
+export function parseChordName(name: string): { root: number; quality: ChordQuality } | null {
+  const match = name.match(/^([A-G]#?)(.*)$/);
+  if (!match) return null;
+
+  const root = ROOT_NAMES.indexOf(match[1]);
+  const quality = (Object.keys(CHORD_QUALITIES) as ChordQuality[])
+    .find(q => CHORD_QUALITIES[q].suffix === match[2]);
+  if (root === -1 || !quality) return null;
+
+  return { root, quality };
+}
+
+/**
+ * Recognize chords from audio using chroma template matching and Viterbi smoothing
  */
 export function extractChords(
-  data: Float32Array, 
-  sampleRate: number, 
-  duration: number, 
-  detectedKey: string
+  data: Float32Array,
+  sampleRate: number,
+  duration: number,
+  detectedKey: string,
+  options: ChordRecognitionOptions = {}
 ): Chord[] {
+  const qualities = options.qualities ?? (Object.keys(CHORD_QUALITIES) as ChordQuality[]);
+  const selfTransition = options.selfTransitionProbability ?? 0.9;
+  const noChordThreshold = options.noChordThreshold ?? 0.5;
+  const diatonicBias = options.diatonicBias ?? 0.05;
+
+  const { frames, frameTimes, energies, hopDuration } = computeChromagram(data, sampleRate, options);
+  if (frames.length === 0) return [];
+
+  // The last state is "no chord", used for silence and unpitched frames
+  const templates = buildTemplates(qualities);
+  templates.push({ root: -1, quality: null, vector: [] });
+  const numStates = templates.length;
+  const noChordState = numStates - 1;
+  const silenceLevel = Math.max(...energies) * 0.05;
+
+  // Favour chords built from the key's scale when the scale is known
+  const scaleTones = options.scale
+    ? new Set(SCALE_INTERVALS[options.scale].map(interval => (interval + getKeyTransposition("C", detectedKey || "C")) % 12))
+    : null;
+  const diatonic = templates.map(template => !!scaleTones && !!template.quality &&
+    CHORD_QUALITIES[template.quality].intervals.every(interval => scaleTones.has((template.root + interval) % 12)));
+
+  const similarities = frames.map((chroma, t) => {
+    const normalized = normalizeVector(chroma);
+    const silent = energies[t] <= silenceLevel || normalized.every(v => v === 0);
+    return templates.map((template, s) => {
+      if (s === noChordState) return silent ? 1 : noChordThreshold;
+      if (silent) return 0;
+      const similarity = template.vector.reduce((sum, v, i) => sum + v * normalized[i], 0);
+      return diatonic[s] ? similarity + diatonicBias : similarity;
+    });
+  });
+
+  // Viterbi decoding; with uniform switch probabilities the best predecessor is
+  // either the same state or the overall best state of the previous frame
+  const logStay = Math.log(selfTransition);
+  const logSwitch = Math.log((1 - selfTransition) / Math.max(1, numStates - 1));
+  const backPointers: Int32Array[] = [];
+  let scores = similarities[0].map(sim => sim * EMISSION_SHARPNESS);
+
+  for (let t = 1; t < frames.length; t++) {
+    let bestPrev = 0;
+    for (let s = 1; s < numStates; s++) {
+      if (scores[s] > scores[bestPrev]) bestPrev = s;
+    }
+
+    const pointers = new Int32Array(numStates);
+    const next = new Array(numStates);
+    for (let s = 0; s < numStates; s++) {
+      const stay = scores[s] + logStay;
+      const change = scores[bestPrev] + logSwitch;
+      pointers[s] = stay >= change ? s : bestPrev;
+      next[s] = Math.max(stay, change) + similarities[t][s] * EMISSION_SHARPNESS;
+    }
+    backPointers.push(pointers);
+    scores = next;
+  }
+
+  const path = new Array<number>(frames.length);
+  path[frames.length - 1] = scores.indexOf(Math.max(...scores));
+  for (let t = frames.length - 1; t > 0; t--) {
+    path[t - 1] = backPointers[t - 1][path[t]];
+  }
+
+  // Merge consecutive frames with the same state into chord events
   const chords: Chord[] = [];
-  
-  const isMinor = detectedKey.includes("m") && !detectedKey.includes("maj");
-  
-  // Chord templates in C major / A minor
-  const majorChordTemplates = [
-    { notes: ["c3", "e3", "g3"], name: "C", degree: "I" },
-    { notes: ["d3", "f3", "a3"], name: "Dm", degree: "ii" },
-    { notes: ["e3", "g3", "b3"], name: "Em", degree: "iii" },
-    { notes: ["f3", "a3", "c4"], name: "F", degree: "IV" },
-    { notes: ["g3", "b3", "d4"], name: "G", degree: "V" },
-    { notes: ["a3", "c4", "e4"], name: "Am", degree: "vi" },
-  ];
-  
-  const minorChordTemplates = [
-    { notes: ["a2", "c3", "e3"], name: "Am", degree: "i" },
-    { notes: ["b2", "d3", "f3"], name: "Bdim", degree: "ii°" },
-    { notes: ["c3", "e3", "g3"], name: "C", degree: "III" },
-    { notes: ["d3", "f3", "a3"], name: "Dm", degree: "iv" },
-    { notes: ["e3", "g3", "b3"], name: "Em", degree: "v" },
-    { notes: ["f3", "a3", "c4"], name: "F", degree: "VI" },
-    { notes: ["g3", "b3", "d4"], name: "G", degree: "VII" },
-  ];
-  
-  const baseKey = isMinor ? "Am" : "C";
-  const transposition = getKeyTransposition(baseKey, detectedKey);
-  const templates = isMinor ? minorChordTemplates : majorChordTemplates;
-  
-  // Transpose chords to detected key
-  const transposedChords = templates.map(chord => ({
-    notes: chord.notes.map(n => transposeNote(n, transposition)),
-    name: getChordNameInKey(chord.name, transposition),
-    degree: chord.degree
-  }));
-  
-  // Generate chord progression based on energy
-  const segmentDuration = 2;
-  const numSegments = Math.min(8, Math.floor(duration / segmentDuration));
-  const samplesPerSegment = Math.floor(data.length / Math.max(1, numSegments));
-  
-  for (let i = 0; i < numSegments; i++) {
-    const startSample = i * samplesPerSegment;
-    const segment = data.slice(startSample, startSample + samplesPerSegment);
-    
-    // Calculate energy
-    let energy = 0;
-    for (let j = 0; j < segment.length; j++) {
-      energy += Math.abs(segment[j]);
+  const tonicKey = detectedKey || "C";
+  let segmentStart = 0;
+
+  for (let t = 1; t <= path.length; t++) {
+    if (t < path.length && path[t] === path[segmentStart]) continue;
+
+    const template = templates[path[segmentStart]];
+    if (template.quality) {
+      const quality = CHORD_QUALITIES[template.quality];
+      let confidence = 0;
+      for (let f = segmentStart; f < t; f++) {
+        confidence += similarities[f][path[segmentStart]];
+      }
+
+      const time = frameTimes[segmentStart];
+      const end = t < path.length ? frameTimes[t] : Math.min(duration, frameTimes[t - 1] + hopDuration);
+      chords.push({
+        notes: quality.intervals.map(interval => transposeNote("c3", template.root + interval)),
+        name: `${ROOT_NAMES[template.root]}${quality.suffix}`,
+        time,
+        duration: Math.max(0, end - time),
+        degree: getChordDegree(template.root, template.quality, tonicKey, options.scale),
+        confidence: Math.min(1, Math.max(0, confidence / (t - segmentStart))),
+      });
     }
-    
-    // Select chord based on energy pattern
-    const chordIndex = Math.floor((energy * 1000) % transposedChords.length);
-    const chord = transposedChords[chordIndex];
-    
-    chords.push({
-      notes: chord.notes,
-      name: chord.name,
-      time: i * segmentDuration,
-      duration: segmentDuration,
-      degree: chord.degree
-    });
+    segmentStart = t;
   }
-  
+
   return chords;
 }
 
 /**
- * Generate chords from notes
+ * Generate chords from notes, one per bar of the given meter and tempo
+ * (in quarter notes per minute)
  */
-export function generateChordsFromNotes(notes: Note[], timeSignature: string = "4/4"): Chord[] {
+export function generateChordsFromNotes(notes: Note[], timeSignature: string = "4/4", tempo: number = 120): Chord[] {
   if (notes.length === 0) return [];
   
-  const [beatsPerBar] = timeSignature.split("/").map(Number);
-  const chordDuration = beatsPerBar * 0.5; // Assume quarter note = 0.5 seconds at 120 BPM
+  const [beatsPerBar, noteValue] = timeSignature.split("/").map(Number);
+  const chordDuration = beatsPerBar * (60 / tempo) * (4 / noteValue);
   
   const chords: Chord[] = [];
   const chordMap = new Map<number, string[]>();
@@ -107,7 +243,7 @@ export function generateChordsFromNotes(notes: Note[], timeSignature: string = "
     const uniqueNotes = [...new Set(notesAtTime)];
     chords.push({
       notes: uniqueNotes.slice(0, 4), // Max 4 notes per chord
-      name: uniqueNotes[0]?.replace(/\d+$/, "") || "C",
+      name: uniqueNotes[0]?.replace(/-?\d+$/, "") || "C",
       time,
       duration: chordDuration
     });
@@ -153,15 +289,9 @@ export function getChordAtTime(chords: Chord[], time: number): Chord | null {
 /**
  * Get roman numeral notation for chord
  */
-export function getRomanNumeral(chord: Chord, key: string): string {
-  if (!chord.degree) return chord.name;
-  
-  const isMinor = key.includes("m");
-  const romanMap: Record<string, string> = isMinor ? {
-    "i": "i", "ii°": "ii°", "III": "III", "iv": "iv", "v": "v", "VI": "VI", "VII": "VII"
-  } : {
-    "I": "I", "ii": "ii", "iii": "iii", "IV": "IV", "V": "V", "vi": "vi"
-  };
-  
-  return romanMap[chord.degree] || chord.name;
+export function getRomanNumeral(chord: Chord, key: string, scale?: ScaleName): string {
+  if (chord.degree) return chord.degree;
+
+  const parsed = parseChordName(chord.name);
+  return parsed ? getChordDegree(parsed.root, parsed.quality, key, scale) : chord.name;
 }
@@ -0,0 +1,112 @@
+/**
+ * Chroma (pitch-class energy) features
+ */
+
+import { ChromaOptions } from "./types";
+import { magnitudeSpectrum } from "./fft";
+import { msToSamples } from "./resample";
+
+export interface Chromagram {
+  frames: number[][];
+  frameTimes: number[];
+  energies: number[];
+  hopDuration: number;
+}
+
+/**
+ * Map every FFT bin to a pitch class (or -1 when outside the frequency range)
+ */
+function buildBinPitchClasses(
+  size: number,
+  sampleRate: number,
+  minFreq: number,
+  maxFreq: number,
+  referencePitch: number
+): Int8Array {
+  const bins = new Int8Array(size / 2 + 1).fill(-1);
+  for (let k = 1; k < bins.length; k++) {
+    const freq = (k * sampleRate) / size;
+    if (freq < minFreq || freq > maxFreq) continue;
+    const midi = 69 + 12 * Math.log2(freq / referencePitch);
+    bins[k] = ((Math.round(midi) % 12) + 12) % 12;
+  }
+  return bins;
+}
+
+/**
+ * Fold a magnitude spectrum into 12 pitch classes, normalized to a peak of 1
+ */
+function foldSpectrum(magnitudes: Float64Array, bins: Int8Array): number[] {
+  const chroma = new Array(12).fill(0);
+  for (let k = 0; k < magnitudes.length; k++) {
+    if (bins[k] >= 0) {
+      chroma[bins[k]] += magnitudes[k] * magnitudes[k];
+    }
+  }
+
+  const max = Math.max(...chroma);
+  return max > 0 ? chroma.map(v => v / max) : chroma;
+}
+
+/**
+ * Compute a 12-bin chroma vector from a single frame
+ */
+export function computeChroma(frame: Float32Array, sampleRate: number, options: ChromaOptions = {}): number[] {
+  const magnitudes = magnitudeSpectrum(frame);
+  const bins = buildBinPitchClasses(
+    (magnitudes.length - 1) * 2,
+    sampleRate,
+    options.minFreq ?? 55,
+    options.maxFreq ?? 5000,
+    options.referencePitch ?? 440
+  );
+  return foldSpectrum(magnitudes, bins);
+}
+
+/**
+ * Compute a chromagram (chroma vector and RMS per frame) over the whole signal
+ */
+export function computeChromagram(data: Float32Array, sampleRate: number, options: ChromaOptions = {}): Chromagram {
+  const frameSize = msToSamples(options.frameSizeMs ?? 185.8, sampleRate);
+  const hopSize = msToSamples(options.hopSizeMs ?? 92.9, sampleRate);
+
+  const frames: number[][] = [];
+  const frameTimes: number[] = [];
+  const energies: number[] = [];
+  let bins: Int8Array | null = null;
+
+  const addFrame = (frame: Float32Array, time: number) => {
+    const magnitudes = magnitudeSpectrum(frame);
+    if (!bins) {
+      bins = buildBinPitchClasses(
+        (magnitudes.length - 1) * 2,
+        sampleRate,
+        options.minFreq ?? 55,
+        options.maxFreq ?? 5000,
+        options.referencePitch ?? 440
+      );
+    }
+
+    let rms = 0;
+    for (let j = 0; j < frame.length; j++) {
+      rms += frame[j] * frame[j];
+    }
+
+    frames.push(foldSpectrum(magnitudes, bins));
+    frameTimes.push(time);
+    energies.push(Math.sqrt(rms / Math.max(1, frame.length)));
+  };
+
+  for (let i = 0; i + frameSize <= data.length; i += hopSize) {
+    addFrame(data.subarray(i, i + frameSize), i / sampleRate);
+  }
+
+  // Signals shorter than one frame still get a single (zero-padded) frame
+  if (frames.length === 0 && data.length > 0) {
+    const padded = new Float32Array(frameSize);
+    padded.set(data);
+    addFrame(padded, 0);
+  }
+
+  return { frames, frameTimes, energies, hopDuration: hopSize / sampleRate };
+}
@@ -0,0 +1,315 @@
+/**
+ * Dependency-free WAV and AIFF/AIFF-C decoding
+ */
+
+import { ChannelMode, DecodeOptions, DecodedAudio } from "./types";
+
+export type AudioDecodeErrorCode =
+  | "INVALID_HEADER"
+  | "MISSING_CHUNK"
+  | "UNSUPPORTED_FORMAT"
+  | "TRUNCATED";
+
+/**
+ * Thrown when audio file bytes cannot be decoded
+ */
+export class AudioDecodeError extends Error {
+  readonly code: AudioDecodeErrorCode;
+
+  constructor(code: AudioDecodeErrorCode, message: string) {
+    super(message);
+    this.name = "AudioDecodeError";
+    this.code = code;
+  }
+}
+
+type SampleEncoding = "pcm" | "float";
+
+interface SampleLayout {
+  encoding: SampleEncoding;
+  bitDepth: number;
+  channels: number;
+  littleEndian: boolean;
+  unsigned8Bit: boolean;
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// AIFF-C compression types that are plain big-endian PCM
+const AIFC_BIG_ENDIAN_PCM = ["NONE", "twos", "in24", "in32"];
+
+function toDataView(bytes: Uint8Array | ArrayBuffer): DataView {
+  return bytes instanceof ArrayBuffer
+    ? new DataView(bytes)
+    : new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function readFourCC(view: DataView, offset: number): string {
+  if (offset + 4 > view.byteLength) {
+    throw new AudioDecodeError("TRUNCATED", `Unexpected end of file at byte ${offset}`);
+  }
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Iterate over IFF-style chunks (id, size, payload offset), padded to even sizes
+ */
+function readChunks(view: DataView, start: number, littleEndian: boolean): Map<string, { offset: number; size: number }> {
+  const chunks = new Map<string, { offset: number; size: number }>();
+  let offset = start;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = readFourCC(view, offset);
+    const size = view.getUint32(offset + 4, littleEndian);
+    const payload = offset + 8;
+    // Writers that stream often leave the final chunk size unset or too large
+    const available = Math.min(size, view.byteLength - payload);
+    if (!chunks.has(id)) chunks.set(id, { offset: payload, size: available });
+    offset = payload + size + (size % 2);
+  }
+
+  return chunks;
+}
+
+/**
+ * Decode interleaved samples into one Float32Array per channel in [-1, 1]
+ */
+function decodeSamples(view: DataView, offset: number, size: number, layout: SampleLayout): Float32Array[] {
+  const { encoding, bitDepth, channels, littleEndian, unsigned8Bit } = layout;
+  const bytesPerSample = bitDepth / 8;
+  const frameCount = Math.floor(size / (bytesPerSample * channels));
+  const output = Array.from({ length: channels }, () => new Float32Array(frameCount));
+
+  const read = (position: number): number => {
+    if (encoding === "float") {
+      return bitDepth === 32 ? view.getFloat32(position, littleEndian) : view.getFloat64(position, littleEndian);
+    }
+    switch (bitDepth) {
+      case 8:
+        return unsigned8Bit ? (view.getUint8(position) - 128) / 128 : view.getInt8(position) / 128;
+      case 16:
+        return view.getInt16(position, littleEndian) / 32768;
+      case 24: {
+        const b0 = view.getUint8(position);
+        const b1 = view.getUint8(position + 1);
+        const b2 = view.getUint8(position + 2);
+        const value = littleEndian ? (b2 << 16) | (b1 << 8) | b0 : (b0 << 16) | (b1 << 8) | b2;
+        return ((value << 8) >> 8) / 8388608;
+      }
+      default:
+        return view.getInt32(position, littleEndian) / 2147483648;
+    }
+  };
+
+  let position = offset;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      output[channel][frame] = read(position);
+      position += bytesPerSample;
+    }
+  }
+
+  return output;
+}
+
+function validateLayout(layout: SampleLayout): void {
+  const supported = layout.encoding === "float"
+    ? [32, 64].includes(layout.bitDepth)
+    : [8, 16, 24, 32].includes(layout.bitDepth);
+  if (!supported) {
+    throw new AudioDecodeError(
+      "UNSUPPORTED_FORMAT",
+      `Unsupported ${layout.encoding} bit depth: ${layout.bitDepth}`
+    );
+  }
+  if (layout.channels < 1) {
+    throw new AudioDecodeError("INVALID_HEADER", "File declares zero channels");
+  }
+}
+
+/**
+ * Downmix channels to mono according to the channel mode
+ */
+export function downmixChannels(channels: Float32Array[], mode: ChannelMode = "mix"): Float32Array {
+  if (channels.length === 0) return new Float32Array(0);
+  const left = channels[0];
+  const right = channels[1] ?? channels[0];
+
+  switch (mode) {
+    case "left":
+      return left.slice();
+    case "right":
+      return right.slice();
+    case "mid":
+      return left.map((v, i) => (v + right[i]) / 2);
+    case "side":
+      return left.map((v, i) => (v - right[i]) / 2);
+    default: {
+      const mixed = new Float32Array(left.length);
+      for (const channel of channels) {
+        for (let i = 0; i < mixed.length; i++) {
+          mixed[i] += channel[i] / channels.length;
+        }
+      }
+      return mixed;
+    }
+  }
+}
+
+/**
+ * Decode a RIFF WAV file (PCM 8/16/24/32-bit, float 32/64-bit, WAVE_FORMAT_EXTENSIBLE)
+ */
+export function decodeWav(bytes: Uint8Array | ArrayBuffer, options: DecodeOptions = {}): DecodedAudio {
+  const view = toDataView(bytes);
+  if (view.byteLength < 12 || readFourCC(view, 0) !== "RIFF" || readFourCC(view, 8) !== "WAVE") {
+    throw new AudioDecodeError("INVALID_HEADER", "Not a RIFF WAVE file");
+  }
+
+  const chunks = readChunks(view, 12, true);
+  const fmt = chunks.get("fmt ");
+  const data = chunks.get("data");
+  if (!fmt) throw new AudioDecodeError("MISSING_CHUNK", "WAV file has no fmt chunk");
+  if (!data) throw new AudioDecodeError("MISSING_CHUNK", "WAV file has no data chunk");
+  if (fmt.size < 16) throw new AudioDecodeError("INVALID_HEADER", "WAV fmt chunk is too short");
+
+  let formatTag = view.getUint16(fmt.offset, true);
+  const channels = view.getUint16(fmt.offset + 2, true);
+  const sampleRate = view.getUint32(fmt.offset + 4, true);
+  const bitDepth = view.getUint16(fmt.offset + 14, true);
+
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+    if (fmt.size < 40) {
+      throw new AudioDecodeError("INVALID_HEADER", "WAVE_FORMAT_EXTENSIBLE fmt chunk is too short");
+    }
+    // The sub-format GUID starts with the actual format tag
+    formatTag = view.getUint16(fmt.offset + 24, true);
+  }
+
+  if (formatTag !== WAVE_FORMAT_PCM && formatTag !== WAVE_FORMAT_IEEE_FLOAT) {
+    throw new AudioDecodeError("UNSUPPORTED_FORMAT", `Unsupported WAV format tag: 0x${formatTag.toString(16)}`);
+  }
+  if (sampleRate === 0) throw new AudioDecodeError("INVALID_HEADER", "WAV file declares a sample rate of 0");
+
+  const layout: SampleLayout = {
+    encoding: formatTag === WAVE_FORMAT_IEEE_FLOAT ? "float" : "pcm",
+    bitDepth,
+    channels,
+    littleEndian: true,
+    // WAV 8-bit is unsigned, AIFF 8-bit is signed
+    unsigned8Bit: true,
+  };
+  validateLayout(layout);
+
+  const decoded = decodeSamples(view, data.offset, data.size, layout);
+  return {
+    data: downmixChannels(decoded, options.channelMode),
+    channels: decoded,
+    sampleRate,
+    bitDepth,
+    format: "wav",
+    duration: decoded[0].length / sampleRate,
+  };
+}
+
+/**
+ * Read an 80-bit IEEE 754 extended precision float (AIFF sample rate)
+ */
+function readExtended(view: DataView, offset: number): number {
+  const exponentWord = view.getUint16(offset);
+  const hi = view.getUint32(offset + 2);
+  const lo = view.getUint32(offset + 6);
+  const sign = exponentWord & 0x8000 ? -1 : 1;
+  const exponent = exponentWord & 0x7fff;
+
+  if (exponent === 0 && hi === 0 && lo === 0) return 0;
+  const mantissa = hi * Math.pow(2, -31) + lo * Math.pow(2, -63);
+  return sign * mantissa * Math.pow(2, exponent - 16383);
+}
+
+/**
+ * Decode an AIFF or AIFF-C file (uncompressed big-endian, little-endian "sowt" or float)
+ */
+export function decodeAiff(bytes: Uint8Array | ArrayBuffer, options: DecodeOptions = {}): DecodedAudio {
+  const view = toDataView(bytes);
+  const formType = view.byteLength >= 12 ? readFourCC(view, 8) : "";
+  if (view.byteLength < 12 || readFourCC(view, 0) !== "FORM" || (formType !== "AIFF" && formType !== "AIFC")) {
+    throw new AudioDecodeError("INVALID_HEADER", "Not an AIFF or AIFF-C file");
+  }
+
+  const chunks = readChunks(view, 12, false);
+  const comm = chunks.get("COMM");
+  const ssnd = chunks.get("SSND");
+  if (!comm) throw new AudioDecodeError("MISSING_CHUNK", "AIFF file has no COMM chunk");
+  if (!ssnd) throw new AudioDecodeError("MISSING_CHUNK", "AIFF file has no SSND chunk");
+  if (comm.size < 18) throw new AudioDecodeError("INVALID_HEADER", "AIFF COMM chunk is too short");
+
+  const channels = view.getUint16(comm.offset);
+  const frameCount = view.getUint32(comm.offset + 2);
+  const bitDepth = view.getUint16(comm.offset + 6);
+  const sampleRate = readExtended(view, comm.offset + 8);
+
+  let encoding: SampleEncoding = "pcm";
+  let littleEndian = false;
+  if (formType === "AIFC") {
+    if (comm.size < 22) throw new AudioDecodeError("INVALID_HEADER", "AIFF-C COMM chunk is too short");
+    const compression = readFourCC(view, comm.offset + 18);
+    if (compression === "sowt") {
+      littleEndian = true;
+    } else if (compression === "fl32" || compression === "FL32" || compression === "fl64" || compression === "FL64") {
+      encoding = "float";
+    } else if (!AIFC_BIG_ENDIAN_PCM.includes(compression)) {
+      throw new AudioDecodeError("UNSUPPORTED_FORMAT", `Unsupported AIFF-C compression: ${compression}`);
+    }
+  }
+  if (!Number.isFinite(sampleRate) || sampleRate <= 0) throw new AudioDecodeError("INVALID_HEADER", "AIFF file declares an invalid sample rate");
+
+  // AIFF stores samples left-justified in whole bytes
+  const layout: SampleLayout = {
+    encoding,
+    bitDepth: encoding === "float" ? bitDepth : Math.ceil(bitDepth / 8) * 8,
+    channels,
+    littleEndian,
+    unsigned8Bit: false,
+  };
+  validateLayout(layout);
+
+  if (ssnd.size < 8) throw new AudioDecodeError("INVALID_HEADER", "AIFF SSND chunk is too short");
+  const dataOffset = ssnd.offset + 8 + view.getUint32(ssnd.offset);
+  const dataSize = Math.min(
+    ssnd.offset + ssnd.size - dataOffset,
+    frameCount * channels * (layout.bitDepth / 8)
+  );
+  if (dataSize < 0) throw new AudioDecodeError("INVALID_HEADER", "AIFF SSND offset points past the chunk");
+
+  const decoded = decodeSamples(view, dataOffset, dataSize, layout);
+  return {
+    data: downmixChannels(decoded, options.channelMode),
+    channels: decoded,
+    sampleRate,
+    bitDepth,
+    format: formType === "AIFC" ? "aifc" : "aiff",
+    duration: decoded[0].length / sampleRate,
+  };
+}
+
+/**
+ * Decode WAV or AIFF bytes, detecting the container from the header
+ */
+export function decodeAudioFile(bytes: Uint8Array | ArrayBuffer, options: DecodeOptions = {}): DecodedAudio {
+  const view = toDataView(bytes);
+  if (view.byteLength < 12) {
+    throw new AudioDecodeError("INVALID_HEADER", "File is too short to contain an audio header");
+  }
+
+  const container = readFourCC(view, 0);
+  if (container === "RIFF") return decodeWav(bytes, options);
+  if (container === "FORM") return decodeAiff(bytes, options);
+  throw new AudioDecodeError("UNSUPPORTED_FORMAT", `Unrecognized container: ${JSON.stringify(container)}`);
+}
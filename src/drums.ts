@@ -0,0 +1,174 @@
+/**
+ * Drum / percussion transcription from onsets and band-energy features
+ */
+
+import { DrumClass, DrumHit, DrumTranscriptionOptions, Note } from "./types";
+import { magnitudeSpectrum } from "./fft";
+import { detectOnsets } from "./onset";
+import { quantizeNotes } from "./melody";
+import { msToSamples } from "./resample";
+
+// Band edges: kicks live below LOW_BAND_HZ, hi-hats above HIGH_BAND_HZ
+const LOW_BAND_HZ = 150;
+const HIGH_BAND_HZ = 5000;
+
+// Mid-band spectral flatness at which a hit counts as fully noisy (snare-like)
+const NOISY_FLATNESS = 0.3;
+
+// Seconds of neighbouring signal each chunk's onset detection sees on both sides
+const CHUNK_CONTEXT = 0.5;
+
+interface BandFeatures {
+  low: number;
+  mid: number;
+  high: number;
+  flatness: number;
+  rms: number;
+}
+
+/**
+ * Relative band energies and mid-band spectral flatness of a hit
+ */
+function extractBandFeatures(frame: Float32Array, sampleRate: number): BandFeatures {
+  const magnitudes = magnitudeSpectrum(frame);
+  const binHz = sampleRate / ((magnitudes.length - 1) * 2);
+
+  let low = 0;
+  let mid = 0;
+  let high = 0;
+  let logSum = 0;
+  let midBins = 0;
+  for (let k = 1; k < magnitudes.length; k++) {
+    const power = magnitudes[k] * magnitudes[k];
+    const frequency = k * binHz;
+    if (frequency < LOW_BAND_HZ) {
+      low += power;
+    } else if (frequency < HIGH_BAND_HZ) {
+      mid += power;
+      logSum += Math.log(power + 1e-12);
+      midBins++;
+    } else {
+      high += power;
+    }
+  }
+
+  const total = low + mid + high || 1;
+  const flatness = midBins > 0 && mid > 0 ? Math.exp(logSum / midBins) / (mid / midBins) : 0;
+
+  let rms = 0;
+  for (let i = 0; i < frame.length; i++) {
+    rms += frame[i] * frame[i];
+  }
+
+  return {
+    low: low / total,
+    mid: mid / total,
+    high: high / total,
+    flatness,
+    rms: Math.sqrt(rms / frame.length),
+  };
+}
+
+/**
+ * Score each drum class from band features; scores sum to one
+ */
+export function classifyDrumHit(features: Omit<BandFeatures, "rms">): Record<DrumClass, number> {
+  const noisiness = Math.min(1, features.flatness / NOISY_FLATNESS);
+  return {
+    kick: features.low,
+    snare: features.mid * noisiness,
+    hihat: features.high,
+    other: features.mid * (1 - noisiness),
+  };
+}
+
+/**
+ * Detect percussive onsets and classify each as kick, snare, hi-hat or other.
+ * Simultaneous instruments (e.g. kick and hi-hat) produce one hit each.
+ * Onsets are found a chunk at a time, with context on each side, so long
+ * recordings are never copied or transformed whole.
+ */
+export function transcribeDrums(
+  data: Float32Array,
+  sampleRate: number,
+  options: DrumTranscriptionOptions = {}
+): DrumHit[] {
+  const frameSizeMs = options.frameSizeMs ?? 46.4;
+  const hopSizeMs = options.hopSizeMs ?? 11.6;
+  const frameSize = msToSamples(frameSizeMs, sampleRate);
+  const hopSize = msToSamples(hopSizeMs, sampleRate);
+  const multiHitRatio = options.multiHitRatio ?? 0.5;
+  const chunkSize = Math.max(frameSize, Math.round((options.chunkDuration ?? 30) * sampleRate));
+  const context = Math.round(CHUNK_CONTEXT * sampleRate) + frameSize;
+
+  // Onset samples of each chunk, found on the chunk and its context. The
+  // signal leads with a frame of silence so a hit at time zero still produces
+  // flux, and blocks start on its hop grid so every chunk sees the same frames.
+  const onsets: number[] = [];
+  for (let start = 0; start < data.length; start += chunkSize) {
+    const blockStart = Math.max(0, Math.floor((start + frameSize - context) / hopSize) * hopSize) - frameSize;
+    const blockEnd = Math.min(data.length, start + chunkSize + context);
+    const lead = Math.max(0, -blockStart);
+    const block = new Float32Array(blockEnd - blockStart);
+    block.set(data.subarray(blockStart + lead, blockEnd), lead);
+    const keepEnd = Math.min(data.length, start + chunkSize);
+
+    for (const { time } of detectOnsets(block, sampleRate, {
+      method: options.method ?? "spectralFlux",
+      frameSizeMs,
+      hopSizeMs,
+      threshold: options.threshold,
+      minInterval: options.minInterval,
+    })) {
+      const onset = Math.max(0, blockStart + Math.round(time * sampleRate));
+      if (onset >= start && onset < keepEnd) onsets.push(onset);
+    }
+  }
+
+  const detected = onsets.map(onset => {
+    const start = Math.max(0, Math.min(data.length - frameSize, onset - Math.floor(hopSize / 2)));
+    const frame = data.subarray(start, start + frameSize);
+    return { time: onset / sampleRate, features: extractBandFeatures(frame, sampleRate) };
+  });
+
+  const maxRms = detected.reduce((max, hit) => Math.max(max, hit.features.rms), 0) || 1;
+  const hits: DrumHit[] = [];
+
+  for (const { time, features } of detected) {
+    const scores = classifyDrumHit(features);
+    const ranked = (Object.keys(scores) as DrumClass[]).sort((a, b) => scores[b] - scores[a]);
+    const best = scores[ranked[0]];
+    const velocity = Math.min(1, features.rms / maxRms);
+
+    for (const drum of ranked) {
+      if (drum !== ranked[0] && (drum === "other" || scores[drum] < best * multiHitRatio)) continue;
+      hits.push({ drum, time, velocity, confidence: scores[drum] });
+    }
+  }
+
+  return hits;
+}
+
+/**
+ * Quantize drum hits to a grid, merging hits of the same drum that land on
+ * the same step
+ */
+export function quantizeDrumHits(
+  hits: DrumHit[],
+  tempo: number,
+  quantizeValue: string,
+  beatGrid?: number[]
+): DrumHit[] {
+  const notes: Note[] = hits.map(hit => ({ note: hit.drum, time: hit.time }));
+  const quantized = quantizeNotes(notes, tempo, quantizeValue, beatGrid);
+  const merged = new Map<string, DrumHit>();
+
+  quantized.forEach((note, i) => {
+    const hit = { ...hits[i], time: note.time };
+    const key = `${hit.drum}@${hit.time.toFixed(4)}`;
+    const existing = merged.get(key);
+    if (!existing || hit.velocity > existing.velocity) merged.set(key, hit);
+  });
+
+  return [...merged.values()].sort((a, b) => a.time - b.time);
+}
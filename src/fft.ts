@@ -0,0 +1,279 @@
+/**
+ * Fast Fourier transform and window helpers
+ */
+
+import { ComplexSpectrum, WindowType } from "./types";
+
+function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+/**
+ * In-place iterative radix-2 FFT over power-of-two lengths
+ */
+function radix2Fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // Butterflies
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * FFT of an arbitrary length via Bluestein's chirp-z transform, which turns
+ * the DFT into a power-of-two circular convolution
+ */
+function bluesteinFft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  const m = nextPowerOfTwo(2 * n - 1);
+
+  // Chirp w_k = exp(-i·π·k²/n), with k² reduced mod 2n to keep the angle precise
+  const chirpRe = new Float64Array(n);
+  const chirpIm = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    const angle = (Math.PI * ((k * k) % (2 * n))) / n;
+    chirpRe[k] = Math.cos(angle);
+    chirpIm[k] = -Math.sin(angle);
+  }
+
+  const aRe = new Float64Array(m);
+  const aIm = new Float64Array(m);
+  for (let k = 0; k < n; k++) {
+    aRe[k] = re[k] * chirpRe[k] - im[k] * chirpIm[k];
+    aIm[k] = re[k] * chirpIm[k] + im[k] * chirpRe[k];
+  }
+
+  const bRe = new Float64Array(m);
+  const bIm = new Float64Array(m);
+  bRe[0] = chirpRe[0];
+  bIm[0] = -chirpIm[0];
+  for (let k = 1; k < n; k++) {
+    bRe[k] = bRe[m - k] = chirpRe[k];
+    bIm[k] = bIm[m - k] = -chirpIm[k];
+  }
+
+  radix2Fft(aRe, aIm);
+  radix2Fft(bRe, bIm);
+  for (let k = 0; k < m; k++) {
+    const r = aRe[k] * bRe[k] - aIm[k] * bIm[k];
+    aIm[k] = aRe[k] * bIm[k] + aIm[k] * bRe[k];
+    aRe[k] = r;
+  }
+  ifft(aRe, aIm);
+
+  for (let k = 0; k < n; k++) {
+    re[k] = aRe[k] * chirpRe[k] - aIm[k] * chirpIm[k];
+    im[k] = aRe[k] * chirpIm[k] + aIm[k] * chirpRe[k];
+  }
+}
+
+/**
+ * In-place complex FFT. Power-of-two lengths use radix-2; other lengths fall
+ * back to Bluestein's algorithm, so any size runs in O(n log n).
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  if (re.length <= 1) return;
+  if (isPowerOfTwo(re.length)) {
+    radix2Fft(re, im);
+  } else {
+    bluesteinFft(re, im);
+  }
+}
+
+/**
+ * In-place inverse complex FFT (scaled by 1/n)
+ */
+export function ifft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 0; i < n; i++) im[i] = -im[i];
+  fft(re, im);
+  for (let i = 0; i < n; i++) {
+    re[i] /= n;
+    im[i] = -im[i] / n;
+  }
+}
+
+/**
+ * Smallest power of two greater than or equal to n
+ */
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
+
+/**
+ * FFT of a real signal, zero-padded or truncated to size; returns bins 0..size/2.
+ * Even sizes pack the samples into a half-length complex FFT.
+ */
+export function rfft(input: ArrayLike<number>, size: number = nextPowerOfTwo(input.length)): ComplexSpectrum {
+  const bins = Math.floor(size / 2) + 1;
+  const re = new Float64Array(bins);
+  const im = new Float64Array(bins);
+  const length = Math.min(input.length, size);
+
+  if (size % 2 !== 0 || size < 4) {
+    const fullRe = new Float64Array(size);
+    const fullIm = new Float64Array(size);
+    for (let i = 0; i < length; i++) fullRe[i] = input[i];
+    fft(fullRe, fullIm);
+    re.set(fullRe.subarray(0, bins));
+    im.set(fullIm.subarray(0, bins));
+    return { re, im };
+  }
+
+  // Even samples as the real part, odd samples as the imaginary part
+  const half = size / 2;
+  const zRe = new Float64Array(half);
+  const zIm = new Float64Array(half);
+  for (let i = 0; i < length; i++) {
+    if (i % 2 === 0) zRe[i >> 1] = input[i];
+    else zIm[i >> 1] = input[i];
+  }
+  fft(zRe, zIm);
+
+  // Separate the even and odd spectra and combine them with the twiddle factors
+  for (let k = 0; k < bins; k++) {
+    const a = k % half;
+    const b = (half - k) % half;
+    const evenRe = (zRe[a] + zRe[b]) / 2;
+    const evenIm = (zIm[a] - zIm[b]) / 2;
+    const oddRe = (zIm[a] + zIm[b]) / 2;
+    const oddIm = -(zRe[a] - zRe[b]) / 2;
+    const angle = (-2 * Math.PI * k) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    re[k] = evenRe + oddRe * wRe - oddIm * wIm;
+    im[k] = evenIm + oddRe * wIm + oddIm * wRe;
+  }
+
+  return { re, im };
+}
+
+/**
+ * Inverse of rfft: rebuild a real signal of the given size from bins 0..size/2
+ */
+export function irfft(spectrum: ComplexSpectrum, size: number): Float64Array {
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const bins = Math.min(spectrum.re.length, Math.floor(size / 2) + 1);
+
+  for (let k = 0; k < bins; k++) {
+    re[k] = spectrum.re[k];
+    im[k] = spectrum.im[k];
+    if (k > 0 && size - k > k) {
+      re[size - k] = spectrum.re[k];
+      im[size - k] = -spectrum.im[k];
+    }
+  }
+
+  ifft(re, im);
+  return re;
+}
+
+/**
+ * Symmetric analysis window of the given length
+ */
+export function createWindow(type: WindowType, length: number): Float64Array {
+  const window = new Float64Array(length);
+  const denominator = Math.max(1, length - 1);
+
+  for (let i = 0; i < length; i++) {
+    const phase = (2 * Math.PI * i) / denominator;
+    switch (type) {
+      case "hann":
+        window[i] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case "hamming":
+        window[i] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case "blackmanHarris":
+        window[i] = 0.35875 - 0.48829 * Math.cos(phase) + 0.14128 * Math.cos(2 * phase) - 0.01168 * Math.cos(3 * phase);
+        break;
+      case "rectangular":
+        window[i] = 1;
+        break;
+    }
+  }
+
+  return window;
+}
+
+/**
+ * Cross-correlation c[τ] = Σ a[i]·b[i + τ] for τ = 0..maxLag, computed via FFT
+ */
+export function crossCorrelate(a: ArrayLike<number>, b: ArrayLike<number>, maxLag: number): Float64Array {
+  const size = nextPowerOfTwo(a.length + b.length);
+  const spectrumA = rfft(a, size);
+  const spectrumB = rfft(b, size);
+
+  // conj(A)·B
+  const product: ComplexSpectrum = {
+    re: new Float64Array(spectrumA.re.length),
+    im: new Float64Array(spectrumA.re.length),
+  };
+  for (let k = 0; k < spectrumA.re.length; k++) {
+    product.re[k] = spectrumA.re[k] * spectrumB.re[k] + spectrumA.im[k] * spectrumB.im[k];
+    product.im[k] = spectrumA.re[k] * spectrumB.im[k] - spectrumA.im[k] * spectrumB.re[k];
+  }
+
+  return irfft(product, size).slice(0, Math.max(0, maxLag) + 1);
+}
+
+/**
+ * Autocorrelation r[τ] = Σ x[i]·x[i + τ] for τ = 0..maxLag, computed via FFT
+ */
+export function autocorrelate(frame: ArrayLike<number>, maxLag: number = frame.length - 1): Float64Array {
+  return crossCorrelate(frame, frame, maxLag);
+}
+
+/**
+ * Hann-windowed magnitude spectrum of a frame (bins 0..N/2)
+ */
+export function magnitudeSpectrum(frame: Float32Array): Float64Array {
+  const window = createWindow("hann", frame.length);
+  const windowed = new Float64Array(frame.length);
+  for (let i = 0; i < frame.length; i++) {
+    windowed[i] = frame[i] * window[i];
+  }
+
+  const { re, im } = rfft(windowed, nextPowerOfTwo(frame.length));
+  const magnitudes = new Float64Array(re.length);
+  for (let k = 0; k < magnitudes.length; k++) {
+    magnitudes[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+  }
+  return magnitudes;
+}
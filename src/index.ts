@@ -6,33 +6,110 @@
 // Types
 export * from "./types";
 
+// Audio file decoding
+export * from "./decode";
+
+// Resampling
+export * from "./resample";
+
+// FFT, windows and spectrograms
+export * from "./fft";
+export * from "./spectrogram";
+
 // Pitch detection
 export * from "./pitch";
 
+// Tuning estimation
+export * from "./tuning";
+
 // Tempo detection
 export * from "./tempo";
 
+// Onset detection
+export * from "./onset";
+
+// Harmonic/percussive separation
+export * from "./hpss";
+
+// Beat tracking
+export * from "./beats";
+
+// Meter detection
+export * from "./meter";
+
 // Key detection
 export * from "./key";
 
+// Scales
+export * from "./scales";
+
 // Melody extraction
 export * from "./melody";
 
+// Polyphonic transcription
+export * from "./polyphonic";
+
+// Drum transcription
+export * from "./drums";
+
+// Bassline extraction
+export * from "./bass";
+
+// Chroma features
+export * from "./chroma";
+
 // Chord extraction
 export * from "./chords";
 
+// Structural segmentation
+export * from "./structure";
+
 // Strudel code generation
 export * from "./strudel";
 
+// Mini-notation parsing
+export * from "./mini";
+
+// MIDI export
+export * from "./midi";
+
+// Streaming analysis
+export * from "./streaming";
+
 /**
  * Full audio analysis pipeline
  */
-import { Note, Chord, AnalysisParams, defaultAnalysisParams } from "./types";
+import {
+  Note,
+  Chord,
+  AnalysisParams,
+  BeatTrackingResult,
+  TempoMap,
+  DrumHit,
+  DecodeOptions,
+  KeyDetectionResult,
+  TuningEstimate,
+  TruncationReport,
+  StructureAnalysis,
+  MeterDetectionResult,
+  defaultAnalysisParams,
+} from "./types";
+import { decodeAudioFile } from "./decode";
+import { resample } from "./resample";
 import { detectPitch, frequencyToNote, frequencyToPitchClass } from "./pitch";
-import { detectTempo } from "./tempo";
-import { detectKey } from "./key";
+import { detectTempo, detectTempoMap, buildBeatGridFromTempoMap } from "./tempo";
+import { estimateTuningFromAudio } from "./tuning";
+import { trackBeats, subdivideBeats, alignToDownbeat } from "./beats";
+import { detectMeter } from "./meter";
+import { detectOnsets } from "./onset";
+import { separateHarmonicPercussive } from "./hpss";
+import { detectKey, detectKeyDetailed, detectKeyFromChroma } from "./key";
 import { extractMelody, quantizeNotes } from "./melody";
 import { extractChords } from "./chords";
+import { detectStructure } from "./structure";
+import { transcribePolyphonic } from "./polyphonic";
+import { transcribeDrums, quantizeDrumHits } from "./drums";
+import { extractBass, excludeBassNotes } from "./bass";
 import { generateStrudelCode, StrudelCode } from "./strudel";
 
 export interface FullAnalysisResult {
@@ -40,7 +117,19 @@ export interface FullAnalysisResult {
   chords: Chord[];
   strudelCode: StrudelCode;
   detectedKey: string;
+  keyAnalysis?: KeyDetectionResult;
+  tuning?: TuningEstimate;
+  referencePitch: number;
   estimatedTempo: number;
+  timeSignature: string;
+  meter?: MeterDetectionResult;
+  beats?: BeatTrackingResult;
+  tempoMap?: TempoMap;
+  bass?: Note[];
+  drums?: DrumHit[];
+  structure?: StructureAnalysis;
+  // Present when a configured limit cut the analysis short
+  truncated?: TruncationReport;
   duration: number;
   sampleRate: number;
 }
@@ -49,55 +138,203 @@ export interface FullAnalysisResult {
  * Analyze audio data and return complete analysis result
  */
 export function analyzeAudio(
-  data: Float32Array,
-  sampleRate: number,
+  input: Float32Array,
+  inputSampleRate: number,
   params: Partial<AnalysisParams> = {}
 ): FullAnalysisResult {
   const opts = { ...defaultAnalysisParams, ...params };
-  const duration = data.length / sampleRate;
+  if (opts.analysisSampleRate !== null && !(opts.analysisSampleRate > 0 && Number.isFinite(opts.analysisSampleRate))) {
+    throw new RangeError(`analysisSampleRate must be a positive number of Hz, got ${opts.analysisSampleRate}`);
+  }
+  
+  // Only analyze up to maxDuration seconds, reporting what was left out
+  const inputDuration = input.length / inputSampleRate;
+  const limited = opts.maxDuration !== null && inputDuration > opts.maxDuration
+    ? input.subarray(0, Math.round(opts.maxDuration * inputSampleRate))
+    : input;
+  const duration = limited.length / inputSampleRate;
+  
+  // Resample to the canonical analysis rate so resolution doesn't depend on the input rate
+  const sampleRate = opts.analysisSampleRate ?? inputSampleRate;
+  const data = sampleRate !== inputSampleRate
+    ? resample(limited, inputSampleRate, sampleRate)
+    : limited;
   
-  // Detect tempo
-  let estimatedTempo = opts.autoDetectTempo 
-    ? detectTempo(data, sampleRate)
+  // Keep drums out of pitch analysis and sustained tones out of rhythm analysis
+  const sources = opts.separateSources ? separateHarmonicPercussive(data, sampleRate) : undefined;
+  const tonal = sources?.harmonic ?? data;
+  const rhythmic = sources?.percussive ?? data;
+  
+  // Estimate the reference pitch so off-440 recordings map to the intended notes
+  const tuning = opts.autoDetectTuning ? estimateTuningFromAudio(tonal, sampleRate) : undefined;
+  const referencePitch = tuning?.referencePitch ?? opts.referencePitch;
+  
+  // Detect tempo, tracking the beat grid when quantizing against it
+  const [givenBeatsPerBar] = opts.timeSignature.split("/").map(Number);
+  const tracked = opts.useBeatGrid
+    ? trackBeats(rhythmic, sampleRate, { beatsPerBar: givenBeatsPerBar })
+    : undefined;
+  
+  // Infer the meter from accents over the beats, placing downbeats to match
+  const meter = opts.autoDetectTimeSignature
+    ? detectMeter(rhythmic, sampleRate, { beats: tracked?.beats })
+    : undefined;
+  const timeSignature = meter?.timeSignature ?? opts.timeSignature;
+  const beats = tracked && meter ? { ...tracked, downbeats: meter.downbeats } : tracked;
+  
+  // A detected meter is only valid on the beats it was measured on, so they
+  // become the grid; either grid is led by a pickup so the first bar starts on a downbeat
+  const counted = meter ?? (tracked && { ...tracked, beatsPerBar: givenBeatsPerBar });
+  let beatGrid = counted && counted.beats.length >= 2
+    ? alignToDownbeat(counted.beats, counted.downbeats, counted.beatsPerBar)
+    : undefined;
+  const gridTempo = beatGrid && beatGrid.length >= 2
+    ? Math.round((60 * (beatGrid.length - 1)) / (beatGrid[beatGrid.length - 1] - beatGrid[0]))
+    : undefined;
+  
+  let estimatedTempo = opts.autoDetectTempo
+    ? beats?.tempo ?? gridTempo ?? detectTempo(rhythmic, sampleRate)
     : opts.targetTempo;
   
-  // Extract melody
-  const { notes: rawMelody, pitchClassHistogram } = extractMelody(data, sampleRate, opts);
+  // Follow tempo drift with a warped grid anchored at the first downbeat;
+  // a meter's own beats already follow it
+  const tempoMap = opts.autoDetectTempo && opts.variableTempo
+    ? detectTempoMap(rhythmic, sampleRate)
+    : undefined;
+  if (tempoMap && !meter) {
+    const bpms = tempoMap.map(entry => entry.bpm).sort((a, b) => a - b);
+    estimatedTempo = Math.round(bpms[Math.floor(bpms.length / 2)]);
+    beatGrid = buildBeatGridFromTempoMap(tempoMap, duration, beatGrid?.[0] ?? 0);
+  }
+  
+  // The tempo counts quarter notes and the bar counts the meter's note value:
+  // a compound meter's beat is a dotted quarter whose thirds the grid then
+  // marks, and a simple x/8 meter's beat is an eighth
+  if (meter) {
+    const noteValue = Number(meter.timeSignature.split("/")[1]);
+    const unitsPerBeat = meter.subdivision === 3 ? 3 : 1;
+    if (unitsPerBeat > 1) beatGrid = beatGrid && subdivideBeats(beatGrid, unitsPerBeat);
+    if (opts.autoDetectTempo) estimatedTempo = Math.round((estimatedTempo * unitsPerBeat * 4) / noteValue);
+  }
+  
+  // Note attacks are clearest in the percussive part
+  const onsets = sources && opts.splitNotesAtOnsets
+    ? detectOnsets(rhythmic, sampleRate, { method: opts.onsetMethod })
+    : undefined;
+  
+  // Extract melody (single line or overlapping notes)
+  const { notes: rawMelody, pitchClassHistogram } = opts.transcriptionMode === "polyphonic"
+    ? transcribePolyphonic(tonal, sampleRate, {
+        amplitudeThreshold: opts.amplitudeThreshold,
+        minNoteDuration: opts.minNoteDuration,
+        referencePitch,
+      })
+    : extractMelody(tonal, sampleRate, { ...opts, referencePitch }, onsets);
   
-  // Detect key
-  let detectedKey = opts.autoDetectKey 
-    ? detectKey(pitchClassHistogram)
-    : opts.targetKey;
+  // Track the bass line separately and keep it out of the melody
+  const rawBass = opts.separateBass
+    ? extractBass(tonal, sampleRate, {
+        amplitudeThreshold: opts.amplitudeThreshold,
+        minNoteDuration: opts.minNoteDuration,
+        referencePitch,
+      })
+    : undefined;
+  
+  // Detect key from the full-signal chroma or the melody's pitch classes
+  const keyAnalysis = opts.autoDetectKey
+    ? opts.keyDetectionSource === "chroma"
+      ? detectKeyFromChroma(tonal, sampleRate, { profile: opts.keyProfile, detectMode: opts.detectMode, referencePitch })
+      : detectKeyDetailed(pitchClassHistogram, { profile: opts.keyProfile, detectMode: opts.detectMode })
+    : undefined;
+  const detectedKey = keyAnalysis?.key ?? opts.targetKey;
+  const scale = opts.detectMode ? keyAnalysis?.mode : undefined;
+  
+  // Keep at most maxNotes melody and bass notes, reporting the rest
+  const unlimitedMelody = rawBass ? excludeBassNotes(rawMelody, rawBass) : rawMelody;
+  let melody = opts.maxNotes !== null ? unlimitedMelody.slice(0, opts.maxNotes) : unlimitedMelody;
+  let bass = rawBass && opts.maxNotes !== null ? rawBass.slice(0, opts.maxNotes) : rawBass;
+  const droppedNotes = unlimitedMelody.length - melody.length + (rawBass?.length ?? 0) - (bass?.length ?? 0);
+  const droppedDuration = inputDuration - duration;
+  const truncated = droppedNotes > 0 || droppedDuration > 0 ? { droppedDuration, droppedNotes } : undefined;
   
   // Quantize notes
-  let melody = rawMelody;
   if (opts.quantizeNotes) {
-    melody = quantizeNotes(rawMelody, estimatedTempo, opts.quantizeValue);
+    melody = quantizeNotes(melody, estimatedTempo, opts.quantizeValue, beatGrid);
+    bass = bass && quantizeNotes(bass, estimatedTempo, opts.quantizeValue, beatGrid);
   }
   
   // Extract chords
-  const chords = extractChords(data, sampleRate, duration, detectedKey);
+  const chords = extractChords(tonal, sampleRate, duration, detectedKey, { scale, referencePitch });
+  
+  // Transcribe percussion
+  let drums = opts.detectDrums ? transcribeDrums(rhythmic, sampleRate) : undefined;
+  if (drums && opts.quantizeNotes) {
+    drums = quantizeDrumHits(drums, estimatedTempo, opts.quantizeValue, beatGrid);
+  }
+  
+  // Find repeated sections, averaging features per tracked beat when available
+  const structure = opts.detectStructure
+    ? detectStructure(tonal, sampleRate, { beats: beatGrid, referencePitch })
+    : undefined;
   
   // Generate Strudel code
-  const strudelCode = generateStrudelCode(melody, chords, estimatedTempo, opts.timeSignature);
+  const strudelCode = generateStrudelCode(melody, chords, estimatedTempo, timeSignature, {
+    beatGrid,
+    tempoMap,
+    key: detectedKey,
+    scale,
+    preset: opts.strudelPreset,
+    sectionBars: opts.strudelSectionBars ?? undefined,
+    structure: structure?.sections,
+    bass,
+    drums,
+  });
   
   return {
     melody,
     chords,
     strudelCode,
     detectedKey,
+    keyAnalysis,
+    tuning,
+    referencePitch,
     estimatedTempo,
+    timeSignature,
+    meter,
+    beats,
+    tempoMap,
+    bass,
+    drums,
+    structure,
+    truncated,
     duration,
-    sampleRate,
+    sampleRate: inputSampleRate,
   };
 }
 
+/**
+ * Decode WAV/AIFF file bytes and analyze them
+ */
+export function analyzeAudioFile(
+  bytes: Uint8Array | ArrayBuffer,
+  params: Partial<AnalysisParams> = {},
+  decodeOptions: DecodeOptions = {}
+): FullAnalysisResult {
+  const { data, sampleRate } = decodeAudioFile(bytes, decodeOptions);
+  return analyzeAudio(data, sampleRate, params);
+}
+
 export default {
   analyzeAudio,
+  analyzeAudioFile,
+  decodeAudioFile,
   detectPitch,
   detectTempo,
+  trackBeats,
   detectKey,
   extractMelody,
+  transcribePolyphonic,
+  transcribeDrums,
   extractChords,
   generateStrudelCode,
 };
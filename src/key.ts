@@ -1,104 +1,290 @@
 /**
- * Key detection using Krumhansl-Schmuckler algorithm
+ * Key detection by correlating pitch-class distributions with key profiles
  */
 
-import { KeyDetectionResult } from "./types";
+import {
+  KeyDetectionOptions,
+  KeyDetectionResult,
+  KeyProfileName,
+  KeySegment,
+  ChromaKeyDetectionOptions,
+  ScaleCandidate,
+  ScaleDetectionOptions,
+  ScaleName,
+} from "./types";
+import { computeChromagram } from "./chroma";
+import { SCALE_INTERVALS, isMinorScale, strudelScaleName } from "./scales";
 
-// Krumhansl-Schmuckler key profiles
-const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
-const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+// Major and minor profiles, indexed from the tonic
+const KEY_PROFILES: Record<KeyProfileName, { major: number[]; minor: number[] }> = {
+  // Krumhansl & Kessler probe-tone ratings
+  krumhansl: {
+    major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+    minor: [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+  },
+  // Temperley's revision of the Krumhansl-Schmuckler profiles
+  temperley: {
+    major: [5.0, 2.0, 3.5, 2.0, 4.5, 4.0, 2.0, 4.5, 2.0, 3.5, 1.5, 4.0],
+    minor: [5.0, 2.0, 3.5, 4.5, 2.0, 4.0, 2.0, 4.5, 3.5, 2.0, 1.5, 4.0],
+  },
+  // Aarden's pitch-class frequencies from the Essen folksong collection
+  aardenEssen: {
+    major: [17.7661, 0.145624, 14.9265, 0.160186, 19.8049, 11.3587, 0.291248, 22.062, 0.145624, 8.15494, 0.232998, 4.95122],
+    minor: [18.2648, 0.737619, 14.0499, 16.8599, 0.702494, 14.4362, 0.702494, 18.6161, 4.56621, 1.93186, 7.37619, 1.75623],
+  },
+  // Shaath's profiles trained on electronic dance music
+  edma: {
+    major: [1.0, 0.29, 0.50, 0.40, 0.60, 0.56, 0.32, 0.80, 0.31, 0.45, 0.42, 0.39],
+    minor: [1.0, 0.31, 0.44, 0.58, 0.33, 0.49, 0.29, 0.78, 0.43, 0.29, 0.53, 0.32],
+  },
+};
 
 const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
 
+// Ionian and aeolian duplicate major and minor, so they are left out by default
+const DETECTABLE_SCALES = (Object.keys(SCALE_INTERVALS) as ScaleName[])
+  .filter(scale => scale !== "ionian" && scale !== "aeolian");
+
+// Template weights; the tonic and fifth are emphasized so modes sharing a
+// pitch set are told apart by which note the music centres on
+const TONIC_WEIGHT = 2;
+const FIFTH_WEIGHT = 1.5;
+
 /**
- * Detect key from pitch class histogram
+ * Pearson correlation of two equal-length vectors (0 when either is constant)
  */
-export function detectKey(pitchClassHistogram: number[]): string {
-  let bestKey = "C";
-  let bestCorr = -Infinity;
-  
-  const normalize = (arr: number[]): number[] => {
-    const sum = arr.reduce((a, b) => a + b, 0);
-    return sum > 0 ? arr.map(v => v / sum) : arr;
-  };
-  
-  const normalizedHist = normalize(pitchClassHistogram);
-  
-  for (let shift = 0; shift < 12; shift++) {
-    const shiftedMajor = MAJOR_PROFILE.map((_, i) => MAJOR_PROFILE[(i + shift) % 12]);
-    const shiftedMinor = MINOR_PROFILE.map((_, i) => MINOR_PROFILE[(i + shift) % 12]);
-    
-    const normalizedMajor = normalize(shiftedMajor);
-    const normalizedMinor = normalize(shiftedMinor);
-    
-    let majorCorr = 0;
-    let minorCorr = 0;
-    
-    for (let i = 0; i < 12; i++) {
-      majorCorr += normalizedHist[i] * normalizedMajor[i];
-      minorCorr += normalizedHist[i] * normalizedMinor[i];
-    }
-    
-    if (majorCorr > bestCorr) {
-      bestCorr = majorCorr;
-      bestKey = NOTE_NAMES[shift];
+function pearsonCorrelation(a: number[], b: number[]): number {
+  const n = a.length;
+  const meanA = a.reduce((sum, v) => sum + v, 0) / n;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / n;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  const denominator = Math.sqrt(varianceA * varianceB);
+  return denominator > 0 ? covariance / denominator : 0;
+}
+
+/**
+ * Score all 24 major and minor keys against a pitch-class distribution, best first
+ */
+export function rankKeys(pitchClasses: number[], options: KeyDetectionOptions = {}): ScaleCandidate[] {
+  const profile = KEY_PROFILES[options.profile ?? "krumhansl"];
+  const candidates: ScaleCandidate[] = [];
+
+  for (let tonic = 0; tonic < 12; tonic++) {
+    // Rotate the distribution so the candidate tonic lines up with the profile's first entry
+    const rotated = pitchClasses.map((_, i) => pitchClasses[(i + tonic) % 12]);
+    candidates.push(
+      {
+        key: NOTE_NAMES[tonic],
+        tonic,
+        scale: "major",
+        strudelScale: strudelScaleName(tonic, "major"),
+        score: pearsonCorrelation(rotated, profile.major),
+      },
+      {
+        key: NOTE_NAMES[tonic] + "m",
+        tonic,
+        scale: "minor",
+        strudelScale: strudelScaleName(tonic, "minor"),
+        score: pearsonCorrelation(rotated, profile.minor),
+      }
+    );
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Score every scale on every tonic against a pitch-class distribution, best first
+ */
+export function rankScales(pitchClasses: number[], options: ScaleDetectionOptions = {}): ScaleCandidate[] {
+  const candidates: ScaleCandidate[] = [];
+
+  for (const scale of options.scales ?? DETECTABLE_SCALES) {
+    const template = new Array(12).fill(0);
+    for (const interval of SCALE_INTERVALS[scale]) {
+      template[interval] = interval === 0 ? TONIC_WEIGHT : interval === 7 ? FIFTH_WEIGHT : 1;
     }
-    if (minorCorr > bestCorr) {
-      bestCorr = minorCorr;
-      bestKey = NOTE_NAMES[shift] + "m";
+
+    for (let tonic = 0; tonic < 12; tonic++) {
+      const rotated = pitchClasses.map((_, i) => pitchClasses[(i + tonic) % 12]);
+      candidates.push({
+        key: NOTE_NAMES[tonic] + (isMinorScale(scale) ? "m" : ""),
+        tonic,
+        scale,
+        strudelScale: strudelScaleName(tonic, scale),
+        score: pearsonCorrelation(rotated, template),
+      });
     }
   }
-  
-  return bestKey;
+
+  return candidates.sort((a, b) => b.score - a.score);
 }
 
 /**
- * Detect key with detailed result
+ * Detect the best matching scale or mode, e.g. D dorian
  */
-export function detectKeyDetailed(pitchClassHistogram: number[]): KeyDetectionResult {
-  let bestKey = "C";
-  let bestCorr = -Infinity;
-  let mode: "major" | "minor" = "major";
-  
-  const normalize = (arr: number[]): number[] => {
-    const sum = arr.reduce((a, b) => a + b, 0);
-    return sum > 0 ? arr.map(v => v / sum) : arr;
+export function detectScale(pitchClasses: number[], options: ScaleDetectionOptions = {}): ScaleCandidate {
+  return rankScales(pitchClasses, options)[0];
+}
+
+/**
+ * Detect key from pitch class histogram
+ */
+export function detectKey(pitchClassHistogram: number[], options: KeyDetectionOptions = {}): string {
+  return rankKeys(pitchClassHistogram, options)[0].key;
+}
+
+/**
+ * Detect key with detailed result; with detectMode the key, mode and
+ * candidates come from the ranked scales instead of the 24 major and minor keys
+ */
+export function detectKeyDetailed(
+  pitchClassHistogram: number[],
+  options: KeyDetectionOptions = {}
+): KeyDetectionResult {
+  const profile = options.profile ?? "krumhansl";
+  if (options.detectMode) {
+    const candidates = rankScales(pitchClassHistogram, options);
+    const best = candidates[0];
+    return {
+      key: best.key,
+      mode: best.scale,
+      strudelScale: best.strudelScale,
+      confidence: Math.max(0, best.score),
+      profile,
+      candidates,
+    };
+  }
+
+  const candidates = rankKeys(pitchClassHistogram, options);
+  const best = candidates[0];
+  return {
+    key: best.key,
+    mode: best.scale,
+    strudelScale: best.strudelScale,
+    confidence: Math.max(0, best.score),
+    profile,
+    candidates,
   };
-  
-  const normalizedHist = normalize(pitchClassHistogram);
-  
-  for (let shift = 0; shift < 12; shift++) {
-    const shiftedMajor = MAJOR_PROFILE.map((_, i) => MAJOR_PROFILE[(i + shift) % 12]);
-    const shiftedMinor = MINOR_PROFILE.map((_, i) => MINOR_PROFILE[(i + shift) % 12]);
-    
-    const normalizedMajor = normalize(shiftedMajor);
-    const normalizedMinor = normalize(shiftedMinor);
-    
-    let majorCorr = 0;
-    let minorCorr = 0;
-    
-    for (let i = 0; i < 12; i++) {
-      majorCorr += normalizedHist[i] * normalizedMajor[i];
-      minorCorr += normalizedHist[i] * normalizedMinor[i];
+}
+
+/**
+ * Sum chroma frames into one pitch-class vector
+ */
+function sumChroma(frames: number[][]): number[] {
+  const total = new Array(12).fill(0);
+  for (const frame of frames) {
+    for (let pc = 0; pc < 12; pc++) {
+      total[pc] += frame[pc];
     }
-    
-    if (majorCorr > bestCorr) {
-      bestCorr = majorCorr;
-      bestKey = NOTE_NAMES[shift];
-      mode = "major";
+  }
+  return total;
+}
+
+/**
+ * Detect the key of the full signal from its chroma, with time-stamped key
+ * segments found by windowed detection and smoothed so brief ambiguities
+ * don't register as modulations
+ */
+export function detectKeyFromChroma(
+  data: Float32Array,
+  sampleRate: number,
+  options: ChromaKeyDetectionOptions = {}
+): KeyDetectionResult {
+  const windowDuration = options.windowDuration ?? 8;
+  const windowHop = options.windowHop ?? 2;
+  const switchPenalty = options.switchPenalty ?? 0.15;
+  const duration = data.length / sampleRate;
+
+  const { frames, frameTimes } = computeChromagram(data, sampleRate, options);
+  const global = detectKeyDetailed(sumChroma(frames), options);
+  const framesBetween = (start: number, end: number) =>
+    frames.filter((_, i) => frameTimes[i] >= start && frameTimes[i] < end);
+
+  // Rank keys per window, keeping a fixed key order for the decoder
+  const keyOrder = rankKeys(new Array(12).fill(0), options);
+  const windowStarts: number[] = [];
+  for (let start = 0; start === 0 || start + windowDuration <= duration; start += windowHop) {
+    windowStarts.push(start);
+  }
+  const windowScores = windowStarts.map(start => {
+    const scores = new Map(rankKeys(sumChroma(framesBetween(start, start + windowDuration)), options).map(c => [c.key, c.score]));
+    return keyOrder.map(({ key }) => scores.get(key) ?? 0);
+  });
+
+  // Viterbi decoding; with a uniform switch penalty the best predecessor is
+  // either the same key or the overall best of the previous window
+  let totals = windowScores[0].slice();
+  const backpointers: number[][] = [];
+  for (let w = 1; w < windowScores.length; w++) {
+    let bestPrevious = 0;
+    for (let k = 1; k < totals.length; k++) {
+      if (totals[k] > totals[bestPrevious]) bestPrevious = k;
+    }
+    const pointers: number[] = [];
+    totals = totals.map((stay, k) => {
+      const change = totals[bestPrevious] - switchPenalty;
+      pointers.push(stay >= change ? k : bestPrevious);
+      return Math.max(stay, change) + windowScores[w][k];
+    });
+    backpointers.push(pointers);
+  }
+
+  const path = new Array(windowScores.length).fill(0);
+  path[path.length - 1] = totals.indexOf(Math.max(...totals));
+  for (let w = path.length - 1; w > 0; w--) {
+    path[w - 1] = backpointers[w - 1][path[w]];
+  }
+
+  // Each window owns the span around its centre; consecutive windows in one key form a segment
+  const segments: KeySegment[] = [];
+  let scoreSum = 0;
+  let windowCount = 0;
+  for (let w = 0; w < path.length; w++) {
+    const { key, scale: mode, strudelScale } = keyOrder[path[w]];
+    const start = w === 0 ? 0 : windowStarts[w] + (windowDuration - windowHop) / 2;
+    const end = w === path.length - 1 ? duration : windowStarts[w] + (windowDuration + windowHop) / 2;
+    const last = segments[segments.length - 1];
+
+    if (last && last.key === key) {
+      last.end = end;
+    } else {
+      scoreSum = 0;
+      windowCount = 0;
+      segments.push({ key, mode, strudelScale, start, end, confidence: 0 });
     }
-    if (minorCorr > bestCorr) {
-      bestCorr = minorCorr;
-      bestKey = NOTE_NAMES[shift] + "m";
-      mode = "minor";
+    scoreSum += windowScores[w][path[w]];
+    windowCount++;
+    segments[segments.length - 1].confidence = Math.max(0, scoreSum / windowCount);
+  }
+
+  // Name each segment's mode from the chroma it spans, merging neighbours that agree
+  if (options.detectMode) {
+    const modal: KeySegment[] = [];
+    for (const segment of segments) {
+      const best = detectScale(sumChroma(framesBetween(segment.start, segment.end)), options);
+      const last = modal[modal.length - 1];
+      if (last && last.key === best.key && last.mode === best.scale) {
+        last.end = segment.end;
+      } else {
+        modal.push({ ...segment, key: best.key, mode: best.scale, strudelScale: best.strudelScale });
+      }
     }
+    return { ...global, segments: modal };
   }
-  
-  return {
-    key: bestKey,
-    mode,
-    confidence: Math.max(0, bestCorr),
-  };
+
+  return { ...global, segments };
 }
 
 /**
@@ -2,32 +2,89 @@
  * Melody extraction from audio data
  */
 
-import { Note, AnalysisParams, defaultAnalysisParams } from "./types";
-import { detectPitch, frequencyToNote, frequencyToPitchClass } from "./pitch";
+import { Note, AnalysisParams, Articulation, Onset, PitchContourPoint, defaultAnalysisParams } from "./types";
+import {
+  estimatePitch,
+  frequencyToCents,
+  frequencyToMidi,
+  frequencyToNote,
+  frequencyToPitchClass,
+  noteToMidi,
+} from "./pitch";
+import { timeToBeat, beatToTime } from "./beats";
+import { msToSamples } from "./resample";
+import { detectOnsets } from "./onset";
+
+// Frames this long after a note starts count towards its attack energy, in seconds
+export const ATTACK_WINDOW = 0.1;
+
+// Sounding fraction of the inter-onset interval below which a note is staccato,
+// and at or above which it is legato
+const STACCATO_RATIO = 0.6;
+const LEGATO_RATIO = 0.95;
 
 /**
- * Extract melody notes from audio data
+ * Extract melody notes from audio data. Notes are split where the pitch
+ * changes and, unless disabled, at detected onsets so repeated notes of the
+ * same pitch stay separate; precomputed onsets (e.g. from the percussive
+ * component) can be passed instead. Each note carries a velocity from its
+ * attack energy, an articulation and its mean deviation in cents.
  */
 export function extractMelody(
   data: Float32Array, 
   sampleRate: number, 
-  params: Partial<AnalysisParams> = {}
+  params: Partial<AnalysisParams> = {},
+  precomputedOnsets?: Onset[]
 ): { notes: Note[]; pitchClassHistogram: number[] } {
   const opts = { ...defaultAnalysisParams, ...params };
   
-  const hopSize = 2048;
-  const frameSize = 4096;
+  const frameSize = msToSamples(opts.frameSizeMs, sampleRate);
+  const hopSize = msToSamples(opts.hopSizeMs, sampleRate);
   const pitchClassHistogram = new Array(12).fill(0);
   
   const rmsThreshold = 0.01 * (opts.pitchSensitivity / 100);
   const minDuration = opts.minNoteDuration / 1000;
   
+  const onsets = !opts.splitNotesAtOnsets
+    ? []
+    : precomputedOnsets ?? detectOnsets(data, sampleRate, { method: opts.onsetMethod });
+  let nextOnset = 0;
+  
   let lastNote = "";
   let noteStartTime = 0;
   const notes: Note[] = [];
+  const attacks: number[] = [];
+  
+  // Attack energy, amplitude-weighted cents deviation and pitch contour of the current note
+  let attack = 0;
+  let centsSum = 0;
+  let centsWeight = 0;
+  let contour: PitchContourPoint[] = [];
+  
+  const finishNote = (end: number) => {
+    const duration = end - noteStartTime;
+    if (lastNote && lastNote !== "rest" && duration > minDuration) {
+      notes.push({
+        note: lastNote,
+        time: noteStartTime,
+        duration,
+        cents: centsWeight > 0 ? Math.round((centsSum / centsWeight) * 10) / 10 : 0,
+        ...(opts.capturePitchContour ? { contour } : {}),
+      });
+      attacks.push(attack);
+    }
+  };
   
   for (let i = 0; i < data.length - frameSize; i += hopSize) {
-    const frame = data.slice(i, i + frameSize);
+    const frame = data.subarray(i, i + frameSize);
+    
+    // An onset reaching the centre of this frame re-attacks a sustained note
+    let onsetTime: number | null = null;
+    const frameCentre = (i + frameSize / 2) / sampleRate;
+    while (nextOnset < onsets.length && onsets[nextOnset].time <= frameCentre) {
+      onsetTime = onsets[nextOnset].time;
+      nextOnset++;
+    }
     
     // Calculate RMS
     let rms = 0;
@@ -36,81 +93,107 @@ export function extractMelody(
     }
     rms = Math.sqrt(rms / frame.length);
     
-    // Skip quiet sections
-    if (rms < rmsThreshold) {
+    // Detect pitch on frames above the RMS gate
+    const estimate = rms < rmsThreshold
+      ? null
+      : estimatePitch(frame, sampleRate, {
+          algorithm: opts.pitchAlgorithm,
+          voicingThreshold: opts.minPitchConfidence,
+        });
+    
+    // Skip quiet and unvoiced sections
+    if (!estimate || !estimate.voiced) {
       if (lastNote && lastNote !== "rest") {
-        const duration = (i / sampleRate) - noteStartTime;
-        if (duration > minDuration) {
-          notes.push({ 
-            note: lastNote, 
-            time: noteStartTime,
-            duration: duration
-          });
-        }
+        finishNote(i / sampleRate);
         lastNote = "";
       }
       continue;
     }
     
-    // Detect pitch
-    const pitch = detectPitch(frame, sampleRate);
-    const note = frequencyToNote(pitch);
-    const pitchClass = frequencyToPitchClass(pitch);
+    const note = frequencyToNote(estimate.frequency, opts.referencePitch);
+    const pitchClass = frequencyToPitchClass(estimate.frequency, opts.referencePitch);
     
     // Update pitch class histogram
     if (pitchClass >= 0) {
       pitchClassHistogram[pitchClass] += rms;
     }
     
-    // Track note changes
-    if (note !== "rest" && note !== lastNote) {
-      if (lastNote && lastNote !== "rest") {
-        const duration = (i / sampleRate) - noteStartTime;
-        if (duration > minDuration) {
-          notes.push({ 
-            note: lastNote, 
-            time: noteStartTime,
-            duration: duration
-          });
-        }
-      }
+    // Track note changes, placing the boundary at the onset when there is one
+    const reattack = onsetTime !== null && lastNote === note && onsetTime - noteStartTime > minDuration;
+    if (note !== "rest" && (note !== lastNote || reattack)) {
+      const boundary = onsetTime !== null && onsetTime > noteStartTime ? onsetTime : i / sampleRate;
+      finishNote(boundary);
       lastNote = note;
-      noteStartTime = i / sampleRate;
+      noteStartTime = boundary;
+      attack = 0;
+      centsSum = 0;
+      centsWeight = 0;
+      contour = [];
+    }
+    
+    if (i / sampleRate - noteStartTime < ATTACK_WINDOW) {
+      attack = Math.max(attack, rms);
+    }
+    centsSum += frequencyToCents(estimate.frequency, opts.referencePitch) * rms;
+    centsWeight += rms;
+    if (opts.capturePitchContour && note !== "rest") {
+      const cents = (frequencyToMidi(estimate.frequency, opts.referencePitch) - noteToMidi(note)) * 100;
+      contour.push({ time: Math.max(0, frameCentre - noteStartTime), cents: Math.round(cents * 10) / 10 });
     }
   }
   
   // Add last note
-  if (lastNote && lastNote !== "rest") {
-    const duration = (data.length / sampleRate) - noteStartTime;
-    if (duration > minDuration) {
-      notes.push({ 
-        note: lastNote, 
-        time: noteStartTime,
-        duration: duration
-      });
-    }
-  }
+  finishNote(data.length / sampleRate);
   
-  // Limit to 64 notes for performance
-  return { notes: notes.slice(0, 64), pitchClassHistogram };
+  return { notes: estimateArticulation(applyAttackVelocities(notes, attacks)), pitchClassHistogram };
+}
+
+/**
+ * Give each note a velocity from its attack energy relative to the loudest attack
+ */
+export function applyAttackVelocities(notes: Note[], attacks: number[]): Note[] {
+  const loudest = attacks.reduce((max, attack) => Math.max(max, attack), 0);
+  return notes.map((note, i) => ({
+    ...note,
+    velocity: loudest > 0 ? Math.round((attacks[i] / loudest) * 100) / 100 : 1,
+  }));
 }
 
 /**
- * Quantize notes to a grid
+ * Label notes staccato, normal or legato from how much of the interval to the
+ * next onset they sound for; the last note keeps the label of its predecessor
  */
-export function quantizeNotes(notes: Note[], tempo: number, quantizeValue: string): Note[] {
+export function estimateArticulation(notes: Note[]): Note[] {
+  const sorted = [...notes].sort((a, b) => a.time - b.time);
+  let previous: Articulation = "normal";
+  
+  return sorted.map((note, i) => {
+    const next = sorted[i + 1];
+    const interval = next ? next.time - note.time : 0;
+    if (interval > 0 && note.duration !== undefined) {
+      const ratio = note.duration / interval;
+      previous = ratio < STACCATO_RATIO ? "staccato" : ratio >= LEGATO_RATIO ? "legato" : "normal";
+    }
+    return { ...note, articulation: previous };
+  });
+}
+
+const QUANTIZE_MAP: Record<string, number> = {
+  "1/4": 1,
+  "1/8": 0.5,
+  "1/16": 0.25,
+  "1/32": 0.125,
+};
+
+/**
+ * Quantize notes to a grid, either a constant tempo from time 0 or a tracked beat grid
+ */
+export function quantizeNotes(notes: Note[], tempo: number, quantizeValue: string, beatGrid?: number[]): Note[] {
   if (quantizeValue === "none") return notes;
+  if (beatGrid && beatGrid.length >= 2) return quantizeNotesToGrid(notes, beatGrid, quantizeValue);
   
   const beatDuration = 60 / tempo;
-  
-  const quantizeMap: Record<string, number> = {
-    "1/4": 1,
-    "1/8": 0.5,
-    "1/16": 0.25,
-    "1/32": 0.125,
-  };
-  
-  const gridSize = beatDuration * (quantizeMap[quantizeValue] || 0.25);
+  const gridSize = beatDuration * (QUANTIZE_MAP[quantizeValue] || 0.25);
   
   return notes.map(note => ({
     ...note,
@@ -119,6 +202,26 @@ export function quantizeNotes(notes: Note[], tempo: number, quantizeValue: strin
   }));
 }
 
+/**
+ * Quantize notes against a tracked beat grid (beat timestamps in seconds),
+ * subdividing each beat interval by the quantize value
+ */
+export function quantizeNotesToGrid(notes: Note[], beatGrid: number[], quantizeValue: string): Note[] {
+  if (quantizeValue === "none" || beatGrid.length < 2) return notes;
+  
+  const step = QUANTIZE_MAP[quantizeValue] || 0.25;
+  const snapBeat = (time: number) => Math.round(timeToBeat(time, beatGrid) / step) * step;
+  
+  return notes.map(note => {
+    const startBeat = snapBeat(note.time);
+    const time = Math.max(0, beatToTime(startBeat, beatGrid));
+    if (!note.duration) return { ...note, time, duration: undefined };
+    
+    const endBeat = Math.max(startBeat + step, snapBeat(note.time + note.duration));
+    return { ...note, time, duration: beatToTime(endBeat, beatGrid) - time };
+  });
+}
+
 /**
  * Get note at a specific time
  */
@@ -137,7 +240,7 @@ export function getNoteAtTime(notes: Note[], time: number): Note | null {
  */
 export function filterNotesByOctave(notes: Note[], minOctave: number, maxOctave: number): Note[] {
   return notes.filter(note => {
-    const match = note.note.match(/(\d+)$/);
+    const match = note.note.match(/(-?\d+)$/);
     if (!match) return false;
     const octave = parseInt(match[1]);
     return octave >= minOctave && octave <= maxOctave;
@@ -151,3 +254,17 @@ export function calculateNoteDensity(notes: Note[], duration: number): number {
   if (duration <= 0) return 0;
   return notes.length / duration;
 }
+
+/**
+ * Build a duration-weighted pitch class histogram from notes (e.g. for detectKey)
+ */
+export function getPitchClassHistogram(notes: Note[]): number[] {
+  const histogram = new Array(12).fill(0);
+  for (const note of notes) {
+    const midi = noteToMidi(note.note);
+    if (midi >= 0) {
+      histogram[midi % 12] += (note.duration || 0.25) * (note.velocity ?? 1);
+    }
+  }
+  return histogram;
+}
@@ -0,0 +1,120 @@
+/**
+ * Meter (time signature) detection from accent patterns over the beat grid
+ */
+
+import { DetectionFunction, MeterCandidate, MeterDetectionOptions, MeterDetectionResult } from "./types";
+import { computeDetectionFunction, standardizeEnvelope } from "./onset";
+import { trackBeats } from "./beats";
+
+// Upper edge of the band whose onsets (kicks) mark strong beats
+const LOW_BAND_HZ = 200;
+
+// Seconds on each side of a position searched for its onset strength
+const ACCENT_WINDOW = 0.03;
+
+// Meters told apart: beats per bar, how each beat divides and a prior favouring common meters
+const METERS: { timeSignature: string; beatsPerBar: number; subdivision: 2 | 3; prior: number }[] = [
+  { timeSignature: "4/4", beatsPerBar: 4, subdivision: 2, prior: 1 },
+  { timeSignature: "3/4", beatsPerBar: 3, subdivision: 2, prior: 0.9 },
+  { timeSignature: "6/8", beatsPerBar: 2, subdivision: 3, prior: 0.9 },
+  { timeSignature: "5/4", beatsPerBar: 5, subdivision: 2, prior: 0.7 },
+  { timeSignature: "7/8", beatsPerBar: 7, subdivision: 2, prior: 0.7 },
+];
+
+/**
+ * Strongest value of a detection function within ACCENT_WINDOW of a time
+ */
+function strengthAt(detection: DetectionFunction, time: number): number {
+  const { values, frameRate, startTime } = detection;
+  const from = Math.max(0, Math.ceil((time - ACCENT_WINDOW - startTime) * frameRate));
+  const to = Math.min(values.length - 1, Math.floor((time + ACCENT_WINDOW - startTime) * frameRate));
+  let strongest = 0;
+  for (let k = from; k <= to; k++) {
+    strongest = Math.max(strongest, values[k]);
+  }
+  return strongest;
+}
+
+/**
+ * How much the accents at the strongest position in a bar of beatsPerBar
+ * beats stand out from the other positions, in standard deviations, and
+ * that position
+ */
+function groupingContrast(accents: number[], beatsPerBar: number): { contrast: number; phase: number } {
+  if (accents.length < 2 * beatsPerBar) return { contrast: 0, phase: 0 };
+
+  const sums = new Array(beatsPerBar).fill(0);
+  const counts = new Array(beatsPerBar).fill(0);
+  accents.forEach((accent, i) => {
+    sums[i % beatsPerBar] += accent;
+    counts[i % beatsPerBar]++;
+  });
+  const means = sums.map((sum, p) => sum / counts[p]);
+  const phase = means.indexOf(Math.max(...means));
+  const others = means.filter((_, p) => p !== phase);
+  const otherMean = others.reduce((sum, v) => sum + v, 0) / others.length;
+
+  const mean = accents.reduce((sum, v) => sum + v, 0) / accents.length;
+  const std = Math.sqrt(accents.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / accents.length);
+  return { contrast: std > 0 ? (means[phase] - otherMean) / std : 0, phase };
+}
+
+/**
+ * Detect the meter: beats are grouped into bars by the period whose
+ * positions differ most in accent (onset strength, counting low-band onsets
+ * twice), and split into simple or compound by whether onsets between beats
+ * fall on halves or thirds. Candidates are scored by both, weighted by a
+ * prior; the winner's downbeats are returned with it.
+ */
+export function detectMeter(data: Float32Array, sampleRate: number, options: MeterDetectionOptions = {}): MeterDetectionResult {
+  const frameSizeMs = options.frameSizeMs ?? 46.4;
+  const hopSizeMs = options.hopSizeMs ?? 11.6;
+  const beats = options.beats ?? trackBeats(data, sampleRate, options).beats;
+  if (beats.length < 4) {
+    return { timeSignature: "4/4", beatsPerBar: 4, subdivision: 2, confidence: 0, candidates: [], beats, downbeats: [] };
+  }
+
+  const standardized = (detection: DetectionFunction) => ({ ...detection, values: standardizeEnvelope(detection.values) });
+  const full = standardized(computeDetectionFunction(data, sampleRate, { method: "spectralFlux", frameSizeMs, hopSizeMs }));
+  const low = standardized(computeDetectionFunction(data, sampleRate, {
+    method: "spectralFlux",
+    frameSizeMs,
+    hopSizeMs,
+    maxFrequency: LOW_BAND_HZ,
+  }));
+  const accents = beats.map(time => strengthAt(full, time) + strengthAt(low, time));
+
+  // Onset strength halfway between beats against a third and two thirds of the way
+  let halves = 0;
+  let thirds = 0;
+  for (let i = 0; i + 1 < beats.length; i++) {
+    const interval = beats[i + 1] - beats[i];
+    halves += strengthAt(full, beats[i] + interval / 2);
+    thirds += (strengthAt(full, beats[i] + interval / 3) + strengthAt(full, beats[i] + (2 * interval) / 3)) / 2;
+  }
+  const intervals = beats.length - 1;
+  const simpleShare = 1 / (1 + Math.exp((thirds - halves) / intervals));
+
+  const scored = METERS.map(meter => {
+    const { contrast, phase } = groupingContrast(accents, meter.beatsPerBar);
+    const share = meter.subdivision === 2 ? simpleShare : 1 - simpleShare;
+    return { meter, phase, score: Math.max(0, contrast) * share * meter.prior };
+  }).sort((a, b) => b.score - a.score);
+
+  const total = scored.reduce((sum, candidate) => sum + candidate.score, 0);
+  const { meter, phase } = scored[0];
+  const candidates: MeterCandidate[] = scored.map(({ meter: m, score }) => ({
+    timeSignature: m.timeSignature,
+    score: total > 0 ? score / total : 0,
+  }));
+
+  return {
+    timeSignature: meter.timeSignature,
+    beatsPerBar: meter.beatsPerBar,
+    subdivision: meter.subdivision,
+    confidence: candidates[0].score,
+    candidates,
+    beats,
+    downbeats: beats.filter((_, i) => i >= phase && (i - phase) % meter.beatsPerBar === 0),
+  };
+}
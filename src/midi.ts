@@ -0,0 +1,480 @@
+/**
+ * Standard MIDI File (SMF) export and import
+ */
+
+import { Note, MidiExportInput, MidiExportOptions, MidiImportResult, MidiTrack, TempoMap } from "./types";
+import { noteToMidi, midiToNote } from "./pitch";
+import { getKeyTransposition } from "./key";
+
+// Number of sharps (positive) or flats (negative) of each major key by pitch class
+const MAJOR_KEY_FIFTHS = [0, -5, 2, -3, 4, -1, 6, 1, -4, 3, -2, 5];
+
+interface MidiEvent {
+  tick: number;
+  // Sort order within a tick: meta first, then note-offs, then note-ons
+  order: number;
+  data: number[];
+}
+
+function writeVariableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (let v = value >> 7; v > 0; v >>= 7) {
+    bytes.unshift((v & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+function writeUint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function metaEvent(tick: number, type: number, payload: number[]): MidiEvent {
+  return { tick, order: 0, data: [0xff, type, ...writeVariableLength(payload.length), ...payload] };
+}
+
+function textBytes(text: string): number[] {
+  return Array.from(text, c => c.charCodeAt(0) & 0x7f);
+}
+
+/**
+ * Encode a sorted list of events as an MTrk chunk
+ */
+function encodeTrack(events: MidiEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+
+  for (const event of sorted) {
+    body.push(...writeVariableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  }
+  body.push(0x00, 0xff, 0x2f, 0x00);
+
+  return [...textBytes("MTrk"), ...writeUint32(body.length), ...body];
+}
+
+/**
+ * Key signature meta event payload (sharps/flats, major/minor) for a key name such as "F#m"
+ */
+function keySignature(key: string): number[] {
+  const minor = key.includes("m") && !key.includes("maj");
+  const tonic = getKeyTransposition("C", key);
+  const relativeMajor = minor ? (tonic + 3) % 12 : tonic;
+  return [MAJOR_KEY_FIFTHS[relativeMajor] & 0xff, minor ? 1 : 0];
+}
+
+/**
+ * Time signature meta event payload for a string such as "6/8"
+ */
+function timeSignatureBytes(timeSignature: string): number[] {
+  const [numerator, denominator] = timeSignature.split("/").map(Number);
+  const power = Math.round(Math.log2(denominator || 4));
+  return [numerator || 4, power, 24, 8];
+}
+
+function noteEvents(
+  notes: { midi: number; time: number; duration: number; velocity?: number }[],
+  channel: number,
+  secondsToTicks: (seconds: number) => number,
+  defaultVelocity: number
+): MidiEvent[] {
+  const events: MidiEvent[] = [];
+  for (const note of notes) {
+    if (note.midi < 0 || note.midi > 127) continue;
+
+    const start = secondsToTicks(note.time);
+    const end = Math.max(start + 1, secondsToTicks(note.time + note.duration));
+    const velocity = note.velocity !== undefined
+      ? Math.min(127, Math.max(1, Math.round(note.velocity * 127)))
+      : defaultVelocity;
+
+    events.push({ tick: start, order: 2, data: [0x90 | channel, note.midi, velocity] });
+    events.push({ tick: end, order: 1, data: [0x80 | channel, note.midi, 0] });
+  }
+  return events;
+}
+
+/**
+ * Pitch-bend event for a deviation in cents, given the synth's bend range in semitones
+ */
+function pitchBendEvent(tick: number, channel: number, cents: number, range: number): MidiEvent {
+  const value = Math.min(16383, Math.max(0, Math.round(8192 + (cents / (range * 100)) * 8192)));
+  return { tick, order: 1, data: [0xe0 | channel, value & 0x7f, (value >> 7) & 0x7f] };
+}
+
+/**
+ * Pitch-bend events following each note's cents deviation and contour, shifted
+ * by a tuning offset. Every note sets the bend as it starts, so no reset is
+ * needed between notes.
+ */
+function pitchBendEvents(
+  notes: Note[],
+  channel: number,
+  secondsToTicks: (seconds: number) => number,
+  range: number,
+  offset: number
+): MidiEvent[] {
+  const bend = (tick: number, cents: number) => pitchBendEvent(tick, channel, cents + offset, range);
+
+  const events: MidiEvent[] = [];
+  for (const note of notes) {
+    const contour = note.contour?.length ? note.contour : [{ time: 0, cents: note.cents ?? 0 }];
+    events.push(bend(secondsToTicks(note.time), contour[0].cents));
+    for (const point of contour.slice(1)) {
+      if (note.duration !== undefined && point.time >= note.duration) break;
+      events.push(bend(secondsToTicks(note.time + point.time), point.cents));
+    }
+  }
+  return events;
+}
+
+/**
+ * Write melody and chords to a Standard MIDI File. Format 1 (default) writes a
+ * conductor track plus separate melody and chord tracks; format 0 merges them.
+ */
+export function writeMidi(input: MidiExportInput, options: MidiExportOptions = {}): Uint8Array {
+  const format = options.format ?? 1;
+  const ticksPerQuarter = options.ticksPerQuarter ?? 480;
+  const melodyChannel = (options.melodyChannel ?? 0) & 0x0f;
+  const chordChannel = (options.chordChannel ?? 1) & 0x0f;
+  const defaultVelocity = options.defaultVelocity ?? 100;
+  const pitchBendRange = options.pitchBendRange ?? 2;
+  // Recordings tuned away from A4 = 440 Hz are bent by the difference, in cents
+  const tuningOffset = 1200 * Math.log2((options.referencePitch ?? 440) / 440);
+
+  const tempo = input.tempo > 0 ? input.tempo : 120;
+  const secondsToTicks = (seconds: number) => Math.max(0, Math.round((seconds * tempo / 60) * ticksPerQuarter));
+  const microsecondsPerQuarter = Math.round(60000000 / tempo);
+
+  const conductor: MidiEvent[] = [
+    metaEvent(0, 0x51, [
+      (microsecondsPerQuarter >> 16) & 0xff,
+      (microsecondsPerQuarter >> 8) & 0xff,
+      microsecondsPerQuarter & 0xff,
+    ]),
+    metaEvent(0, 0x58, timeSignatureBytes(input.timeSignature)),
+  ];
+  if (input.key) {
+    conductor.push(metaEvent(0, 0x59, keySignature(input.key)));
+  }
+
+  const melodyNotes = input.melody.map(note => ({
+    midi: noteToMidi(note.note),
+    time: note.time,
+    duration: note.duration ?? 60 / tempo,
+    velocity: note.velocity,
+  }));
+  const chordNotes = input.chords.flatMap(chord => chord.notes.map(name => ({
+    midi: noteToMidi(name),
+    time: chord.time,
+    duration: chord.duration ?? 60 / tempo,
+  })));
+
+  const melodyTrack: MidiEvent[] = [
+    metaEvent(0, 0x03, textBytes("Melody")),
+    ...(options.melodyProgram !== undefined
+      ? [{ tick: 0, order: 0, data: [0xc0 | melodyChannel, options.melodyProgram & 0x7f] }]
+      : []),
+    ...noteEvents(melodyNotes, melodyChannel, secondsToTicks, defaultVelocity),
+    ...(options.pitchBend
+      ? pitchBendEvents(input.melody, melodyChannel, secondsToTicks, pitchBendRange, tuningOffset)
+      : []),
+  ];
+  const chordTrack: MidiEvent[] = [
+    metaEvent(0, 0x03, textBytes("Chords")),
+    ...(options.chordProgram !== undefined
+      ? [{ tick: 0, order: 0, data: [0xc0 | chordChannel, options.chordProgram & 0x7f] }]
+      : []),
+    ...(options.pitchBend && tuningOffset !== 0
+      ? [pitchBendEvent(0, chordChannel, tuningOffset, pitchBendRange)]
+      : []),
+    ...noteEvents(chordNotes, chordChannel, secondsToTicks, defaultVelocity),
+  ];
+
+  const tracks = format === 0
+    ? [encodeTrack([...conductor, ...melodyTrack.slice(1), ...chordTrack.slice(1)])]
+    : [encodeTrack(conductor), encodeTrack(melodyTrack), encodeTrack(chordTrack)];
+
+  const header = [
+    ...textBytes("MThd"),
+    ...writeUint32(6),
+    0x00, format,
+    (tracks.length >> 8) & 0xff, tracks.length & 0xff,
+    (ticksPerQuarter >> 8) & 0x7f, ticksPerQuarter & 0xff,
+  ];
+
+  return Uint8Array.from([...header, ...tracks.flat()]);
+}
+
+export type MidiParseErrorCode = "INVALID_HEADER" | "TRUNCATED" | "UNSUPPORTED_FORMAT";
+
+/**
+ * Thrown when bytes cannot be parsed as a Standard MIDI File
+ */
+export class MidiParseError extends Error {
+  readonly code: MidiParseErrorCode;
+
+  constructor(code: MidiParseErrorCode, message: string) {
+    super(message);
+    this.name = "MidiParseError";
+    this.code = code;
+  }
+}
+
+const KEY_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+interface RawNote {
+  track: number;
+  channel: number;
+  midi: number;
+  velocity: number;
+  startTick: number;
+  endTick: number;
+}
+
+/**
+ * Sequential big-endian reader that throws typed errors past the end of the data
+ */
+class MidiReader {
+  position = 0;
+
+  constructor(private readonly bytes: Uint8Array, private readonly end: number = bytes.length) {}
+
+  get done(): boolean {
+    return this.position >= this.end;
+  }
+
+  byte(): number {
+    if (this.position >= this.end) {
+      throw new MidiParseError("TRUNCATED", `Unexpected end of data at byte ${this.position}`);
+    }
+    return this.bytes[this.position++];
+  }
+
+  uint(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = value * 256 + this.byte();
+    }
+    return value;
+  }
+
+  variableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const b = this.byte();
+      value = value * 128 + (b & 0x7f);
+      if (!(b & 0x80)) return value;
+    }
+    throw new MidiParseError("INVALID_HEADER", `Variable-length quantity too long at byte ${this.position}`);
+  }
+
+  text(length: number): string {
+    let text = "";
+    for (let i = 0; i < length; i++) {
+      text += String.fromCharCode(this.byte());
+    }
+    return text;
+  }
+
+  skip(length: number): void {
+    if (this.position + length > this.end) {
+      throw new MidiParseError("TRUNCATED", `Unexpected end of data at byte ${this.position}`);
+    }
+    this.position += length;
+  }
+}
+
+/**
+ * Key name such as "F#m" from a key signature meta event
+ */
+function keyFromSignature(fifths: number, minor: boolean): string {
+  // Each fifth moves the major tonic up seven semitones; the relative minor lies nine above it
+  const major = ((fifths * 7) % 12 + 12) % 12;
+  return minor ? `${KEY_NAMES[(major + 9) % 12]}m` : KEY_NAMES[major];
+}
+
+/**
+ * Parse a Standard MIDI File (format 0, 1 or 2) into notes, tempo, meter and key
+ */
+export function readMidi(data: Uint8Array | ArrayBuffer): MidiImportResult {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const reader = new MidiReader(bytes);
+
+  if (bytes.length < 14 || reader.text(4) !== "MThd") {
+    throw new MidiParseError("INVALID_HEADER", "Not a Standard MIDI File");
+  }
+  const headerLength = reader.uint(4);
+  if (headerLength < 6) throw new MidiParseError("INVALID_HEADER", "MIDI header chunk is too short");
+  const format = reader.uint(2);
+  const trackCount = reader.uint(2);
+  const division = reader.uint(2);
+  reader.skip(headerLength - 6);
+
+  if (format > 2) throw new MidiParseError("UNSUPPORTED_FORMAT", `Unsupported MIDI format: ${format}`);
+
+  const tempoEvents: { tick: number; microsecondsPerQuarter: number }[] = [];
+  const rawNotes: RawNote[] = [];
+  const trackNames: (string | undefined)[] = [];
+  let timeSignature: string | null = null;
+  let key: string | undefined;
+  let lastTick = 0;
+
+  for (let track = 0; track < trackCount && !reader.done;) {
+    const id = reader.text(4);
+    const length = reader.uint(4);
+    // Unknown chunk types must be skipped, per the SMF specification
+    if (id !== "MTrk") {
+      reader.skip(Math.min(length, bytes.length - reader.position));
+      continue;
+    }
+
+    const trackReader = new MidiReader(bytes, Math.min(bytes.length, reader.position + length));
+    trackReader.position = reader.position;
+    reader.skip(Math.min(length, bytes.length - reader.position));
+
+    // Sounding notes per channel/pitch; repeated note-ons are closed first-in first-out
+    const open = new Map<number, { startTick: number; velocity: number }[]>();
+    let tick = 0;
+    let runningStatus = 0;
+
+    while (!trackReader.done) {
+      tick += trackReader.variableLength();
+      let status = trackReader.byte();
+
+      if (status === 0xff) {
+        const type = trackReader.byte();
+        const size = trackReader.variableLength();
+        const start = trackReader.position;
+        if (type === 0x51 && size >= 3) {
+          tempoEvents.push({ tick, microsecondsPerQuarter: trackReader.uint(3) });
+        } else if (type === 0x58 && size >= 2 && timeSignature === null) {
+          timeSignature = `${trackReader.byte()}/${Math.pow(2, trackReader.byte())}`;
+        } else if (type === 0x59 && size >= 2 && key === undefined) {
+          const fifths = (trackReader.byte() << 24) >> 24;
+          key = keyFromSignature(fifths, trackReader.byte() === 1);
+        } else if (type === 0x03 && trackNames[track] === undefined) {
+          trackNames[track] = trackReader.text(size);
+        } else if (type === 0x2f) {
+          break;
+        }
+        trackReader.position = start;
+        trackReader.skip(size);
+        continue;
+      }
+
+      if (status === 0xf0 || status === 0xf7) {
+        trackReader.skip(trackReader.variableLength());
+        continue;
+      }
+
+      // Running status: reuse the previous status byte for data-only events
+      if (status < 0x80) {
+        if (!runningStatus) {
+          throw new MidiParseError("INVALID_HEADER", `Data byte without status at byte ${trackReader.position - 1}`);
+        }
+        trackReader.position--;
+        status = runningStatus;
+      } else {
+        runningStatus = status;
+      }
+
+      const type = status & 0xf0;
+      const channel = status & 0x0f;
+      const first = trackReader.byte();
+      const second = type === 0xc0 || type === 0xd0 ? 0 : trackReader.byte();
+
+      if (type === 0x90 && second > 0) {
+        const slot = channel * 128 + first;
+        if (!open.has(slot)) open.set(slot, []);
+        open.get(slot)!.push({ startTick: tick, velocity: second });
+      } else if (type === 0x80 || type === 0x90) {
+        const started = open.get(channel * 128 + first)?.shift();
+        if (started) {
+          rawNotes.push({ track, channel, midi: first, velocity: started.velocity, startTick: started.startTick, endTick: tick });
+        }
+      }
+    }
+
+    // Close notes that never received a note-off at the end of the track
+    for (const [slot, notes] of open) {
+      for (const started of notes) {
+        rawNotes.push({
+          track,
+          channel: Math.floor(slot / 128),
+          midi: slot % 128,
+          velocity: started.velocity,
+          startTick: started.startTick,
+          endTick: tick,
+        });
+      }
+    }
+    lastTick = Math.max(lastTick, tick);
+    track++;
+  }
+
+  // Convert ticks to seconds through the tempo changes
+  tempoEvents.sort((a, b) => a.tick - b.tick);
+  const smpte = division & 0x8000;
+  const ticksPerQuarter = division & 0x7fff || 480;
+  const ticksPerSecond = smpte ? -((division >> 8) << 24 >> 24) * (division & 0xff) : 0;
+
+  const segments: { tick: number; seconds: number; secondsPerTick: number }[] = [];
+  let seconds = 0;
+  let previousTick = 0;
+  let secondsPerTick = 0.5 / ticksPerQuarter;
+  for (const event of tempoEvents) {
+    seconds += (event.tick - previousTick) * secondsPerTick;
+    previousTick = event.tick;
+    secondsPerTick = event.microsecondsPerQuarter / 1000000 / ticksPerQuarter;
+    segments.push({ tick: event.tick, seconds, secondsPerTick });
+  }
+
+  const ticksToSeconds = (tick: number): number => {
+    if (smpte) return ticksPerSecond > 0 ? tick / ticksPerSecond : 0;
+    let segment = { tick: 0, seconds: 0, secondsPerTick: 0.5 / ticksPerQuarter };
+    for (const candidate of segments) {
+      if (candidate.tick > tick) break;
+      segment = candidate;
+    }
+    return segment.seconds + (tick - segment.tick) * segment.secondsPerTick;
+  };
+
+  // Until the first Set Tempo event the default of 120 BPM applies
+  const tempoMap: TempoMap = tempoEvents.map(event => ({
+    time: ticksToSeconds(event.tick),
+    bpm: 60000000 / event.microsecondsPerQuarter,
+  }));
+  if (tempoMap.length === 0 || tempoEvents[0].tick > 0) tempoMap.unshift({ time: 0, bpm: 120 });
+
+  const toNote = (raw: RawNote): Note => {
+    const time = ticksToSeconds(raw.startTick);
+    return {
+      note: midiToNote(raw.midi),
+      time,
+      duration: ticksToSeconds(raw.endTick) - time,
+      velocity: raw.velocity / 127,
+      channel: raw.channel,
+    };
+  };
+
+  const byTime = (a: Note, b: Note) => a.time - b.time;
+  const tracks: MidiTrack[] = [];
+  const usedTracks = rawNotes.reduce((count, n) => Math.max(count, n.track + 1), trackNames.length);
+  for (let track = 0; track < usedTracks; track++) {
+    tracks.push({
+      name: trackNames[track],
+      notes: rawNotes.filter(n => n.track === track).map(toNote).sort(byTime),
+    });
+  }
+
+  return {
+    notes: rawNotes.map(toNote).sort(byTime),
+    tracks,
+    tempo: tempoMap[0].bpm,
+    tempoMap,
+    timeSignature: timeSignature ?? "4/4",
+    key,
+    duration: ticksToSeconds(lastTick),
+  };
+}
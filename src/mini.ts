@@ -0,0 +1,537 @@
+/**
+ * Strudel mini-notation parser and evaluator (the subset the generator emits)
+ */
+
+import {
+  Note,
+  MiniNode,
+  MiniEvent,
+  MiniEvaluationOptions,
+  ParsedStrudelCode,
+} from "./types";
+import { midiToNote } from "./pitch";
+import { parseStrudelScale, scaleDegreeToMidi } from "./scales";
+
+// Tolerance for floating-point cycle positions
+const EPSILON = 1e-9;
+
+const NOTE_LETTERS: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+/**
+ * Thrown when a mini-notation string cannot be parsed
+ */
+export class MiniNotationError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = "MiniNotationError";
+    this.position = position;
+  }
+}
+
+/**
+ * Recursive-descent parser over the mini-notation source
+ */
+class MiniParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): MiniNode {
+    const node = this.parseStack("");
+    this.skipWhitespace();
+    if (this.position < this.source.length) {
+      throw new MiniNotationError(`Unexpected "${this.source[this.position]}"`, this.position);
+    }
+    return node;
+  }
+
+  private peek(): string {
+    return this.source[this.position] ?? "";
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.peek())) this.position++;
+  }
+
+  private expect(char: string): void {
+    this.skipWhitespace();
+    if (this.peek() !== char) {
+      throw new MiniNotationError(`Expected "${char}"`, this.position);
+    }
+    this.position++;
+  }
+
+  private parseNumber(): number {
+    const match = this.source.slice(this.position).match(/^\d+(\.\d+)?/);
+    if (!match) throw new MiniNotationError("Expected a number", this.position);
+    this.position += match[0].length;
+    return Number(match[0]);
+  }
+
+  /**
+   * Comma-separated sequences, stacked when there is more than one
+   */
+  private parseStack(closing: string): MiniNode {
+    const sequences = [this.parseSequence(closing)];
+    while (this.peek() === ",") {
+      this.position++;
+      sequences.push(this.parseSequence(closing));
+    }
+    return sequences.length === 1 ? sequences[0] : { type: "stack", children: sequences };
+  }
+
+  private parseSequence(closing: string): MiniNode & { type: "sequence" } {
+    const steps: { node: MiniNode; weight: number }[] = [];
+
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.peek();
+      if (char === "" || char === "," || char === closing) break;
+      if (char === "]" || char === ">") {
+        throw new MiniNotationError(`Unexpected "${char}"`, this.position);
+      }
+
+      // A standalone "!" repeats the previous step
+      if (char === "!") {
+        this.position++;
+        if (steps.length === 0) throw new MiniNotationError("Nothing to repeat", this.position - 1);
+        steps.push({ ...steps[steps.length - 1] });
+        continue;
+      }
+
+      steps.push(...this.parseStep());
+    }
+
+    return { type: "sequence", steps };
+  }
+
+  private parseStep(): { node: MiniNode; weight: number }[] {
+    let node = this.parseTerm();
+    let weight = 1;
+    let repeats = 1;
+
+    for (;;) {
+      const char = this.peek();
+      if (char === "@") {
+        this.position++;
+        weight = this.parseNumber();
+      } else if (char === "*") {
+        this.position++;
+        node = { type: "fast", node, factor: this.parseNumber() };
+      } else if (char === "/") {
+        this.position++;
+        const factor = this.parseNumber();
+        if (factor === 0) throw new MiniNotationError("Cannot slow down by zero", this.position);
+        node = { type: "fast", node, factor: 1 / factor };
+      } else if (char === "!" && /\d/.test(this.source[this.position + 1] ?? "")) {
+        this.position++;
+        repeats = Math.max(1, Math.floor(this.parseNumber()));
+      } else {
+        break;
+      }
+    }
+
+    return Array.from({ length: repeats }, () => ({ node, weight }));
+  }
+
+  private parseTerm(): MiniNode {
+    const char = this.peek();
+
+    if (char === "[") {
+      this.position++;
+      const node = this.parseStack("]");
+      this.expect("]");
+      return node;
+    }
+
+    if (char === "<") {
+      this.position++;
+      const start = this.position;
+      const node = this.parseStack(">");
+      this.expect(">");
+      const toAlternation = (sequence: MiniNode): MiniNode => {
+        if (sequence.type !== "sequence") return sequence;
+        // "@n" inside < > holds an element for n cycles
+        const children = sequence.steps.flatMap(step => Array.from({ length: Math.max(1, Math.round(step.weight)) }, () => step.node));
+        if (children.length === 0) throw new MiniNotationError("Empty alternation", start);
+        return { type: "alternation", children };
+      };
+      return node.type === "stack"
+        ? { type: "stack", children: node.children.map(toAlternation) }
+        : toAlternation(node);
+    }
+
+    if (char === "~") {
+      this.position++;
+      return { type: "rest" };
+    }
+
+    const match = this.source.slice(this.position).match(/^[A-Za-z0-9#_:.\-]+/);
+    if (!match) throw new MiniNotationError(`Unexpected "${char}"`, this.position);
+    this.position += match[0].length;
+    return { type: "atom", value: match[0] };
+  }
+}
+
+/**
+ * Parse a mini-notation string into a pattern tree
+ */
+export function parseMiniNotation(source: string): MiniNode {
+  return new MiniParser(source).parse();
+}
+
+/**
+ * Events of a pattern whose onsets fall in [from, to), in cycles
+ */
+export function queryMiniNotation(pattern: MiniNode | string, from: number, to: number): MiniEvent[] {
+  const node = typeof pattern === "string" ? parseMiniNotation(pattern) : pattern;
+  const inRange = (event: MiniEvent) => event.begin >= from - EPSILON && event.begin < to - EPSILON;
+  const cycles: number[] = [];
+  for (let cycle = Math.floor(from); cycle < to; cycle++) cycles.push(cycle);
+
+  switch (node.type) {
+    case "rest":
+      return [];
+
+    case "atom":
+      return cycles
+        .map(cycle => ({ value: node.value, begin: cycle, end: cycle + 1 }))
+        .filter(inRange);
+
+    case "stack":
+      return node.children.flatMap(child => queryMiniNotation(child, from, to));
+
+    case "fast":
+      if (node.factor <= 0) return [];
+      return queryMiniNotation(node.node, from * node.factor, to * node.factor)
+        .map(event => ({ value: event.value, begin: event.begin / node.factor, end: event.end / node.factor }))
+        .filter(inRange);
+
+    case "sequence": {
+      const total = node.steps.reduce((sum, step) => sum + step.weight, 0);
+      if (total <= 0) return [];
+      const events: MiniEvent[] = [];
+      for (const cycle of cycles) {
+        let offset = 0;
+        for (const step of node.steps) {
+          // The child's cycle is compressed into this step's slot of the cycle
+          const slotStart = cycle + offset / total;
+          const scale = step.weight / total;
+          for (const event of queryMiniNotation(step.node, cycle, cycle + 1)) {
+            events.push({
+              value: event.value,
+              begin: slotStart + (event.begin - cycle) * scale,
+              end: slotStart + (event.end - cycle) * scale,
+            });
+          }
+          offset += step.weight;
+        }
+      }
+      return events.filter(inRange);
+    }
+
+    case "alternation": {
+      // Cycle c plays child (c mod n), which advances through its own cycles
+      const count = node.children.length;
+      const events: MiniEvent[] = [];
+      for (const cycle of cycles) {
+        const child = node.children[((cycle % count) + count) % count];
+        const childCycle = Math.floor(cycle / count);
+        const shift = cycle - childCycle;
+        for (const event of queryMiniNotation(child, childCycle, childCycle + 1)) {
+          events.push({ value: event.value, begin: event.begin + shift, end: event.end + shift });
+        }
+      }
+      return events.filter(inRange);
+    }
+  }
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function lcm(a: number, b: number): number {
+  return (a / gcd(a, b)) * b;
+}
+
+/**
+ * Number of cycles after which a pattern repeats (e.g. 4 for "<a b c d>")
+ */
+export function miniNotationPeriod(pattern: MiniNode | string): number {
+  const node = typeof pattern === "string" ? parseMiniNotation(pattern) : pattern;
+
+  switch (node.type) {
+    case "atom":
+    case "rest":
+      return 1;
+    case "stack":
+      return node.children.map(miniNotationPeriod).reduce(lcm, 1);
+    case "sequence":
+      return node.steps.map(step => miniNotationPeriod(step.node)).reduce(lcm, 1);
+    case "alternation":
+      return node.children.length * node.children.map(miniNotationPeriod).reduce(lcm, 1);
+    case "fast": {
+      // Slowing down by an integer factor stretches the period; speeding up can only shorten it
+      const period = miniNotationPeriod(node.node);
+      const stretched = period / node.factor;
+      return Number.isInteger(stretched) ? stretched : period * Math.max(1, Math.round(1 / node.factor));
+    }
+  }
+}
+
+/**
+ * Convert a mini-notation note token ("c4", "eb3", "fs2", "c#5", MIDI number) to a note name
+ */
+export function miniTokenToNote(token: string): string | null {
+  if (/^-?\d+(\.\d+)?$/.test(token)) return midiToNote(Number(token));
+
+  const match = token.toLowerCase().match(/^([a-g])([#sbf]*)(-?\d+)?$/);
+  if (!match) return null;
+
+  const [, letter, accidentals, octave] = match;
+  let pitchClass = NOTE_LETTERS[letter];
+  for (const accidental of accidentals) {
+    pitchClass += accidental === "#" || accidental === "s" ? 1 : -1;
+  }
+  // Strudel's default octave is 3
+  return midiToNote((Number(octave ?? 3) + 1) * 12 + pitchClass);
+}
+
+/**
+ * Evaluate a note pattern into timed notes (in seconds); by default one full
+ * period of the pattern is evaluated
+ */
+export function miniNotationToNotes(pattern: MiniNode | string, options: MiniEvaluationOptions = {}): Note[] {
+  const node = typeof pattern === "string" ? parseMiniNotation(pattern) : pattern;
+  const cycles = options.cycles ?? miniNotationPeriod(node);
+  const cycleDuration = 60 / (options.cyclesPerMinute ?? 30);
+  const scale = options.scale ? parseStrudelScale(options.scale) : null;
+  const toNote = (token: string): string | null => scale && /^-?\d+$/.test(token)
+    ? midiToNote(scaleDegreeToMidi(Number(token), scale.rootMidi, scale.scale))
+    : miniTokenToNote(token);
+
+  return queryMiniNotation(node, 0, cycles)
+    .map(event => ({ note: toNote(event.value), event }))
+    .filter((entry): entry is { note: string; event: MiniEvent } => entry.note !== null)
+    .map(({ note, event }) => ({
+      note,
+      time: event.begin * cycleDuration,
+      duration: (event.end - event.begin) * cycleDuration,
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Velocity of the event sounding at a cycle position, if any
+ */
+function velocityAt(node: MiniNode, cycle: number): number | undefined {
+  const from = Math.max(0, Math.floor(cycle) - miniNotationPeriod(node));
+  const event = queryMiniNotation(node, from, Math.floor(cycle) + 1)
+    .find(candidate => candidate.begin <= cycle + EPSILON && candidate.end > cycle + EPSILON);
+  const value = event ? Number(event.value) : NaN;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+interface LayerPattern {
+  // Offset of the layer in the source, to keep layers in source order
+  index: number;
+  node: MiniNode;
+  scale?: string;
+  velocity?: MiniNode;
+}
+
+/**
+ * Find note() and n() calls with the .scale(), .velocity(), .gain(),
+ * .slow() and .fast() calls chained onto them
+ */
+function findLayerPatterns(code: string): LayerPattern[] {
+  const patterns: LayerPattern[] = [];
+  const layerPattern = /\b(note|n)\(\s*(["'`])([\s\S]*?)\2\s*\)((?:\s*\.\w+\([^()]*\))*)/g;
+  for (let match = layerPattern.exec(code); match; match = layerPattern.exec(code)) {
+    let node = parseMiniNotation(match[3]);
+    let scale: string | undefined;
+    let velocity: MiniNode | undefined;
+    const callPattern = /\.(\w+)\(\s*(?:["'`]([^"'`]*)["'`]|([\d.]+))\s*\)/g;
+    for (let call = callPattern.exec(match[4]); call; call = callPattern.exec(match[4])) {
+      const [, method, text, number] = call;
+      if (method === "scale" && text !== undefined) scale = text;
+      if (method === "velocity" || (method === "gain" && text !== undefined)) {
+        velocity = parseMiniNotation(text ?? number);
+      }
+      // Time changes apply to everything chained before them
+      const factor = method === "slow" ? 1 / Number(number) : method === "fast" ? Number(number) : 0;
+      if (factor > 0 && Number.isFinite(factor)) {
+        node = { type: "fast", node, factor };
+        if (velocity) velocity = { type: "fast", node: velocity, factor };
+      }
+    }
+    patterns.push({ index: match.index, node, scale: match[1] === "n" ? scale : undefined, velocity });
+  }
+  return patterns;
+}
+
+/**
+ * Index where an expression starting at from ends: the first unmatched
+ * closing bracket, or a character stop accepts outside brackets and strings
+ */
+function expressionEnd(code: string, from: number, stop: (index: number) => boolean = () => false): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = from; i < code.length; i++) {
+    const char = code[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      if (depth === 0) return i;
+      depth--;
+    } else if (depth === 0 && stop(i)) {
+      return i;
+    }
+  }
+
+  return code.length;
+}
+
+/**
+ * Find const/let definitions (e.g. named section patterns), with the source
+ * range each spans; a definition continues onto lines starting with "."
+ */
+function findDefinitions(code: string): { name: string; start: number; end: number; expression: string }[] {
+  const definitions: { name: string; start: number; end: number; expression: string }[] = [];
+  const opener = /\b(?:const|let|var)\s+(\w+)\s*=\s*/g;
+  const continuation = /\s*\./y;
+
+  for (let match = opener.exec(code); match; match = opener.exec(code)) {
+    const from = match.index + match[0].length;
+    const end = expressionEnd(code, from, i => {
+      if (code[i] === ";") return true;
+      if (code[i] !== "\n") return false;
+      continuation.lastIndex = i + 1;
+      return !continuation.test(code);
+    });
+    definitions.push({ name: match[1], start: match.index, end, expression: code.slice(from, end) });
+    opener.lastIndex = end;
+  }
+
+  return definitions;
+}
+
+/**
+ * Find arrange([cycles, pattern], ...) calls, with the source range each
+ * spans; a pattern naming a definition is replaced by its expression
+ */
+function findArrangements(
+  code: string,
+  definitions: Record<string, string>
+): { start: number; end: number; sections: { cycles: number; code: string }[] }[] {
+  const arrangements: { start: number; end: number; sections: { cycles: number; code: string }[] }[] = [];
+  const opener = /\barrange\(/g;
+
+  for (let match = opener.exec(code); match; match = opener.exec(code)) {
+    const sections: { cycles: number; code: string }[] = [];
+    let i = match.index + match[0].length;
+
+    while (i < code.length && code[i] !== ")") {
+      if (code[i] !== "[") {
+        i++;
+        continue;
+      }
+      const close = expressionEnd(code, i + 1);
+      const body = code.slice(i + 1, close);
+      const comma = body.indexOf(",");
+      const cycles = Number(body.slice(0, comma));
+      const pattern = body.slice(comma + 1).trim();
+      if (comma > 0 && cycles > 0) sections.push({ cycles, code: definitions[pattern] ?? pattern });
+      i = close + 1;
+    }
+
+    arrangements.push({ start: match.index, end: i + 1, sections });
+    opener.lastIndex = i + 1;
+  }
+
+  return arrangements;
+}
+
+/**
+ * Evaluate one layer over a number of cycles, applying its velocities
+ */
+function evaluateLayer(pattern: LayerPattern, cycles: number, cyclesPerMinute: number, scale?: string): Note[] {
+  const notes = miniNotationToNotes(pattern.node, { cycles, cyclesPerMinute, scale: pattern.scale ?? scale });
+  const velocity = pattern.velocity;
+  if (!velocity) return notes;
+
+  const cycleDuration = 60 / cyclesPerMinute;
+  return notes.map(note => {
+    const value = velocityAt(velocity, note.time / cycleDuration);
+    return value === undefined ? note : { ...note, velocity: value };
+  });
+}
+
+/**
+ * Extract the note() and n() layers and tempo from Strudel code and evaluate
+ * them into notes, e.g. to round-trip generated code or analyze pasted patterns.
+ * The .scale(), .slow() and .fast() calls chained onto a layer are applied, and
+ * .velocity() or patterned .gain() values become note velocities. An
+ * arrange() call becomes one layer playing its sections in order, which may
+ * name patterns defined with const.
+ */
+export function parseStrudelCode(code: string, options: MiniEvaluationOptions = {}): ParsedStrudelCode {
+  const cpmMatch = code.match(/(?:\.cpm|setcpm)\(\s*([\d.]+)\s*\)/);
+  const cpsMatch = code.match(/(?:\.cps|setcps)\(\s*([\d.]+)\s*\)/);
+  const cyclesPerMinute = options.cyclesPerMinute
+    ?? (cpmMatch ? Number(cpmMatch[1]) : cpsMatch ? Number(cpsMatch[1]) * 60 : 30);
+  const cycleDuration = 60 / cyclesPerMinute;
+
+  // Definitions are substituted where arrange() names them, and layers inside
+  // arrange() calls are evaluated per section, so blank both out for the rest
+  const definitions = findDefinitions(code);
+  let plain = code;
+  for (const { start, end } of definitions) {
+    plain = plain.slice(0, start) + " ".repeat(end - start) + plain.slice(end);
+  }
+  const arrangements = findArrangements(plain, Object.fromEntries(definitions.map(d => [d.name, d.expression])));
+  for (const { start, end } of arrangements) {
+    plain = plain.slice(0, start) + " ".repeat(end - start) + plain.slice(end);
+  }
+  const patterns = findLayerPatterns(plain);
+
+  // Evaluate every layer over the longest layer's period or arrangement so they line up
+  const arrangementCycles = arrangements.map(({ sections }) => sections.reduce((sum, section) => sum + section.cycles, 0));
+  const cycles = options.cycles
+    ?? Math.max(1, ...patterns.map(pattern => miniNotationPeriod(pattern.node)), ...arrangementCycles);
+
+  const positioned = patterns.map(pattern => ({
+    index: pattern.index,
+    notes: evaluateLayer(pattern, cycles, cyclesPerMinute, options.scale),
+  }));
+  arrangements.forEach(({ start, sections }, i) => {
+    const notes: Note[] = [];
+    for (let offset = 0; arrangementCycles[i] > 0 && offset < cycles; ) {
+      for (const section of sections) {
+        for (const pattern of findLayerPatterns(section.code)) {
+          for (const note of evaluateLayer(pattern, section.cycles, cyclesPerMinute, options.scale)) {
+            const time = note.time + offset * cycleDuration;
+            if (time < cycles * cycleDuration - EPSILON) notes.push({ ...note, time });
+          }
+        }
+        offset += section.cycles;
+      }
+    }
+    positioned.push({ index: start, notes: notes.sort((a, b) => a.time - b.time) });
+  });
+
+  const layers = positioned.sort((a, b) => a.index - b.index).map(layer => layer.notes);
+  return {
+    layers,
+    notes: layers.flat().sort((a, b) => a.time - b.time),
+    cyclesPerMinute,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Onset detection: detection functions and adaptive peak picking (Bello et al., 2005)
+ */
+
+import { DetectionFunction, Onset, OnsetDetectionFunction, OnsetDetectionOptions } from "./types";
+import { createWindow, nextPowerOfTwo, rfft } from "./fft";
+import { msToSamples } from "./resample";
+
+// Smallest spread of each detection function treated as real change; the
+// ripple of a held tone stays below it instead of being scaled up into onsets
+const MIN_DETECTION_STD: Record<OnsetDetectionFunction, number> = {
+  energy: 1e-2,
+  spectralFlux: 1,
+  hfc: 1,
+  complexDomain: 0.2,
+};
+
+/**
+ * Normalize an envelope to zero mean, unit variance and half-wave rectify it,
+ * so thresholds and weights are scale-independent. A spread below minStd is
+ * divided by minStd instead, so a nearly flat envelope stays near zero
+ */
+export function standardizeEnvelope(envelope: number[], minStd = 0): number[] {
+  const mean = envelope.reduce((a, b) => a + b, 0) / Math.max(1, envelope.length);
+  const variance = envelope.reduce((a, v) => a + (v - mean) * (v - mean), 0) / Math.max(1, envelope.length);
+  const std = Math.max(Math.sqrt(variance), minStd) || 1;
+  return envelope.map(v => Math.max(0, (v - mean) / std));
+}
+
+/**
+ * Per-frame detection function over the signal, one value per hop:
+ * - energy: rise in frame RMS
+ * - spectralFlux: summed rise in log magnitude across bins
+ * - hfc: rise in high-frequency content (bin-index-weighted power)
+ * - complexDomain: rectified deviation from the magnitude and phase predicted
+ *   by the two previous frames, which also catches soft pitched onsets
+ */
+export function computeDetectionFunction(
+  data: Float32Array,
+  sampleRate: number,
+  options: OnsetDetectionOptions = {}
+): DetectionFunction {
+  const method: OnsetDetectionFunction = options.method ?? "spectralFlux";
+  const frameSize = msToSamples(options.frameSizeMs ?? 46.4, sampleRate);
+  const hopSize = msToSamples(options.hopSizeMs ?? 11.6, sampleRate);
+  const frameRate = sampleRate / hopSize;
+  // Values register when an onset reaches the centre of the analysis window
+  const startTime = frameSize / 2 / sampleRate;
+  const values: number[] = [];
+
+  if (method === "energy") {
+    let previous = 0;
+    for (let i = 0; i + frameSize <= data.length; i += hopSize) {
+      let energy = 0;
+      for (let j = 0; j < frameSize; j++) {
+        energy += data[i + j] * data[i + j];
+      }
+      const rms = Math.sqrt(energy / frameSize);
+      values.push(values.length > 0 ? Math.max(0, rms - previous) : 0);
+      previous = rms;
+    }
+    return { values, frameRate, startTime };
+  }
+
+  const size = nextPowerOfTwo(frameSize);
+  const bins = Math.min(
+    size / 2 + 1,
+    options.maxFrequency !== undefined ? Math.ceil((options.maxFrequency * size) / sampleRate) + 1 : Infinity
+  );
+  const window = createWindow("hann", frameSize);
+  const windowed = new Float64Array(frameSize);
+
+  let previousMagnitudes: Float64Array | null = null;
+  let previousPhases: Float64Array | null = null;
+  let olderPhases: Float64Array | null = null;
+  let previousHfc = 0;
+
+  for (let i = 0; i + frameSize <= data.length; i += hopSize) {
+    for (let j = 0; j < frameSize; j++) {
+      windowed[j] = data[i + j] * window[j];
+    }
+    const { re, im } = rfft(windowed, size);
+
+    const magnitudes = new Float64Array(bins);
+    const phases = new Float64Array(bins);
+    for (let k = 0; k < bins; k++) {
+      magnitudes[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+      phases[k] = Math.atan2(im[k], re[k]);
+    }
+
+    let value = 0;
+    if (method === "hfc") {
+      let hfc = 0;
+      for (let k = 0; k < bins; k++) {
+        hfc += k * magnitudes[k] * magnitudes[k];
+      }
+      value = values.length > 0 ? Math.max(0, hfc - previousHfc) : 0;
+      previousHfc = hfc;
+    } else if (method === "spectralFlux" && previousMagnitudes) {
+      for (let k = 0; k < bins; k++) {
+        value += Math.max(0, Math.log1p(magnitudes[k]) - Math.log1p(previousMagnitudes[k]));
+      }
+    } else if (method === "complexDomain" && previousMagnitudes && previousPhases) {
+      for (let k = 0; k < bins; k++) {
+        // Only rising bins count, so offsets don't register as onsets
+        if (magnitudes[k] < previousMagnitudes[k]) continue;
+        const predictedPhase = olderPhases ? 2 * previousPhases[k] - olderPhases[k] : previousPhases[k];
+        const dRe = magnitudes[k] * Math.cos(phases[k]) - previousMagnitudes[k] * Math.cos(predictedPhase);
+        const dIm = magnitudes[k] * Math.sin(phases[k]) - previousMagnitudes[k] * Math.sin(predictedPhase);
+        value += Math.sqrt(dRe * dRe + dIm * dIm);
+      }
+    }
+
+    values.push(value);
+    olderPhases = previousPhases;
+    previousPhases = phases;
+    previousMagnitudes = magnitudes;
+  }
+
+  return { values, frameRate, startTime };
+}
+
+/**
+ * Indices of local maxima that exceed the local median by the threshold (in
+ * standard deviations of the standardized function), at least minInterval apart
+ */
+export function pickOnsetPeaks(values: number[], frameRate: number, options: OnsetDetectionOptions = {}): number[] {
+  const threshold = options.threshold ?? 0.5;
+  const radius = Math.max(1, Math.round((options.thresholdWindow ?? 0.1) * frameRate));
+  const minDistance = Math.max(1, Math.round((options.minInterval ?? 0.05) * frameRate));
+  const peaks: number[] = [];
+
+  for (let i = 1; i < values.length - 1; i++) {
+    if (values[i] < values[i - 1] || values[i] <= values[i + 1]) continue;
+
+    const neighbourhood = values.slice(Math.max(0, i - radius), i + radius + 1).sort((a, b) => a - b);
+    const median = neighbourhood[Math.floor(neighbourhood.length / 2)];
+    if (values[i] < median + threshold) continue;
+
+    // Within the minimum interval keep the stronger peak
+    const last = peaks[peaks.length - 1];
+    if (last !== undefined && i - last < minDistance) {
+      if (values[i] > values[last]) peaks[peaks.length - 1] = i;
+      continue;
+    }
+    peaks.push(i);
+  }
+
+  return peaks;
+}
+
+/**
+ * Detect onsets, returning their times (seconds) and standardized strengths
+ */
+export function detectOnsets(data: Float32Array, sampleRate: number, options: OnsetDetectionOptions = {}): Onset[] {
+  const { values, frameRate, startTime } = computeDetectionFunction(data, sampleRate, options);
+  const strengths = standardizeEnvelope(values, MIN_DETECTION_STD[options.method ?? "spectralFlux"]);
+
+  return pickOnsetPeaks(strengths, frameRate, options).map(index => ({
+    time: startTime + index / frameRate,
+    strength: strengths[index],
+  }));
+}
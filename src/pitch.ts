@@ -2,12 +2,13 @@
  * Pitch detection using autocorrelation algorithm
  */
 
-import { PitchDetectionOptions } from "./types";
+import { PitchDetectionOptions, PitchEstimate, PitchEstimator, PitchAlgorithm } from "./types";
+import { autocorrelate, crossCorrelate } from "./fft";
 
 const NOTE_NAMES = ["c", "cs", "d", "ds", "e", "f", "fs", "g", "gs", "a", "as", "b"];
 
 /**
- * Detect pitch from an audio frame using autocorrelation
+ * Detect pitch from an audio frame using autocorrelation (computed via FFT)
  */
 export function detectPitch(frame: Float32Array, sampleRate: number, options: PitchDetectionOptions = {}): number {
   const minFreq = options.minFreq ?? 80;
@@ -19,11 +20,9 @@ export function detectPitch(frame: Float32Array, sampleRate: number, options: Pi
   let maxCorr = 0;
   let bestPeriod = 0;
   
-  for (let period = minPeriod; period < maxPeriod; period++) {
-    let corr = 0;
-    for (let i = 0; i < frame.length - period; i++) {
-      corr += frame[i] * frame[i + period];
-    }
+  const correlation = autocorrelate(frame, maxPeriod);
+  for (let period = minPeriod; period < Math.min(maxPeriod, frame.length); period++) {
+    const corr = correlation[period];
     if (corr > maxCorr) {
       maxCorr = corr;
       bestPeriod = period;
@@ -34,38 +33,263 @@ export function detectPitch(frame: Float32Array, sampleRate: number, options: Pi
 }
 
 /**
- * Convert frequency to note name
+ * Autocorrelation pitch estimate with normalized correlation as confidence
  */
-export function frequencyToNote(freq: number): string {
-  const a4 = 440;
-  const c0 = a4 * Math.pow(2, -4.75);
-  
+export function detectPitchAutocorrelation(
+  frame: Float32Array,
+  sampleRate: number,
+  options: PitchDetectionOptions = {}
+): PitchEstimate {
+  const voicingThreshold = options.voicingThreshold ?? 0.5;
+  const frequency = detectPitch(frame, sampleRate, options);
+  if (frequency <= 0) return { frequency: 0, confidence: 0, voiced: false };
+
+  const period = Math.round(sampleRate / frequency);
+  let energy = 0;
+  let corr = 0;
+  for (let i = 0; i < frame.length - period; i++) {
+    energy += (frame[i] * frame[i] + frame[i + period] * frame[i + period]) / 2;
+    corr += frame[i] * frame[i + period];
+  }
+
+  const confidence = energy > 0 ? Math.min(1, Math.max(0, corr / energy)) : 0;
+  return { frequency, confidence, voiced: confidence >= voicingThreshold };
+}
+
+/**
+ * Cumulative mean normalized difference function used by YIN and pYIN
+ */
+function cumulativeMeanNormalizedDifference(frame: Float32Array, maxPeriod: number): Float64Array {
+  const windowSize = frame.length - maxPeriod;
+  const cmnd = new Float64Array(maxPeriod + 1);
+  cmnd[0] = 1;
+
+  // d(τ) = Σ x[i]² + Σ x[i+τ]² − 2·Σ x[i]·x[i+τ] over the window, with the
+  // cross term from an FFT correlation and the energies from prefix sums
+  const cross = crossCorrelate(frame.subarray(0, windowSize), frame, maxPeriod);
+  const prefix = new Float64Array(frame.length + 1);
+  for (let i = 0; i < frame.length; i++) {
+    prefix[i + 1] = prefix[i] + frame[i] * frame[i];
+  }
+
+  let runningSum = 0;
+  for (let tau = 1; tau <= maxPeriod; tau++) {
+    const energy = prefix[windowSize] + prefix[tau + windowSize] - prefix[tau];
+    const diff = Math.max(0, energy - 2 * cross[tau]);
+    runningSum += diff;
+    cmnd[tau] = runningSum > 0 ? (diff * tau) / runningSum : 1;
+  }
+
+  return cmnd;
+}
+
+/**
+ * Refine a lag with parabolic interpolation over its neighbours
+ */
+function parabolicInterpolation(values: Float64Array, index: number): number {
+  if (index <= 0 || index >= values.length - 1) return index;
+
+  const prev = values[index - 1];
+  const curr = values[index];
+  const next = values[index + 1];
+  const denominator = prev - 2 * curr + next;
+  return denominator !== 0 ? index + (prev - next) / (2 * denominator) : index;
+}
+
+/**
+ * First lag whose CMND dips below the threshold, followed down to its local minimum
+ */
+function findDip(cmnd: Float64Array, minPeriod: number, threshold: number): number {
+  for (let tau = minPeriod; tau < cmnd.length; tau++) {
+    if (cmnd[tau] < threshold) {
+      while (tau + 1 < cmnd.length && cmnd[tau + 1] < cmnd[tau]) tau++;
+      return tau;
+    }
+  }
+  return -1;
+}
+
+function findGlobalMinimum(cmnd: Float64Array, minPeriod: number): number {
+  let best = minPeriod;
+  for (let tau = minPeriod; tau < cmnd.length; tau++) {
+    if (cmnd[tau] < cmnd[best]) best = tau;
+  }
+  return best;
+}
+
+function getPeriodRange(frame: Float32Array, sampleRate: number, options: PitchDetectionOptions): [number, number] {
+  const minFreq = options.minFreq ?? 80;
+  const maxFreq = options.maxFreq ?? 1000;
+  const minPeriod = Math.max(2, Math.floor(sampleRate / maxFreq));
+  const maxPeriod = Math.min(Math.ceil(sampleRate / minFreq), Math.floor(frame.length / 2));
+  return [minPeriod, maxPeriod];
+}
+
+/**
+ * Detect pitch using the YIN algorithm (de Cheveigné & Kawahara, 2002)
+ */
+export function detectPitchYin(
+  frame: Float32Array,
+  sampleRate: number,
+  options: PitchDetectionOptions = {}
+): PitchEstimate {
+  const threshold = options.threshold ?? 0.15;
+  const voicingThreshold = options.voicingThreshold ?? 0.5;
+  const [minPeriod, maxPeriod] = getPeriodRange(frame, sampleRate, options);
+  if (maxPeriod <= minPeriod) return { frequency: 0, confidence: 0, voiced: false };
+
+  const cmnd = cumulativeMeanNormalizedDifference(frame, maxPeriod);
+  let tau = findDip(cmnd, minPeriod, threshold);
+  if (tau === -1) tau = findGlobalMinimum(cmnd, minPeriod);
+
+  const period = parabolicInterpolation(cmnd, tau);
+  const confidence = Math.min(1, Math.max(0, 1 - cmnd[tau]));
+  return {
+    frequency: sampleRate / period,
+    confidence,
+    voiced: confidence >= voicingThreshold,
+  };
+}
+
+// Beta(2, 18) prior over YIN thresholds (mean 0.1), as in the pYIN paper
+const PYIN_THRESHOLDS = Array.from({ length: 100 }, (_, i) => (i + 1) / 100);
+const PYIN_THRESHOLD_WEIGHTS = (() => {
+  const weights = PYIN_THRESHOLDS.map(x => x * Math.pow(1 - x, 17));
+  const sum = weights.reduce((a, b) => a + b, 0);
+  return weights.map(w => w / sum);
+})();
+
+// Probability mass given to the global minimum when no dip is below a threshold
+const PYIN_ABSOLUTE_MIN_PROBABILITY = 0.01;
+
+/**
+ * Detect pitch using probabilistic YIN (Mauch & Dixon, 2014), frame-level stage.
+ * Confidence is the probability mass of the winning period over a threshold prior.
+ */
+export function detectPitchPyin(
+  frame: Float32Array,
+  sampleRate: number,
+  options: PitchDetectionOptions = {}
+): PitchEstimate {
+  const voicingThreshold = options.voicingThreshold ?? 0.5;
+  const [minPeriod, maxPeriod] = getPeriodRange(frame, sampleRate, options);
+  if (maxPeriod <= minPeriod) return { frequency: 0, confidence: 0, voiced: false };
+
+  const cmnd = cumulativeMeanNormalizedDifference(frame, maxPeriod);
+  const globalMin = findGlobalMinimum(cmnd, minPeriod);
+  const probabilities = new Map<number, number>();
+
+  PYIN_THRESHOLDS.forEach((threshold, i) => {
+    const tau = findDip(cmnd, minPeriod, threshold);
+    const [candidate, weight] = tau === -1
+      ? [globalMin, PYIN_THRESHOLD_WEIGHTS[i] * PYIN_ABSOLUTE_MIN_PROBABILITY]
+      : [tau, PYIN_THRESHOLD_WEIGHTS[i]];
+    probabilities.set(candidate, (probabilities.get(candidate) ?? 0) + weight);
+  });
+
+  let bestTau = globalMin;
+  let bestProbability = 0;
+  for (const [tau, probability] of probabilities) {
+    if (probability > bestProbability) {
+      bestTau = tau;
+      bestProbability = probability;
+    }
+  }
+
+  const confidence = Math.min(1, bestProbability);
+  return {
+    frequency: sampleRate / parabolicInterpolation(cmnd, bestTau),
+    confidence,
+    voiced: confidence >= voicingThreshold,
+  };
+}
+
+/**
+ * Available pitch estimators by algorithm name
+ */
+export const pitchEstimators: Record<PitchAlgorithm, PitchEstimator> = {
+  autocorrelation: detectPitchAutocorrelation,
+  yin: detectPitchYin,
+  pyin: detectPitchPyin,
+};
+
+/**
+ * Estimate pitch with the algorithm selected in options (YIN by default)
+ */
+export function estimatePitch(frame: Float32Array, sampleRate: number, options: PitchDetectionOptions = {}): PitchEstimate {
+  return pitchEstimators[options.algorithm ?? "yin"](frame, sampleRate, options);
+}
+
+/**
+ * Convert frequency to note name, relative to the given A4 reference pitch
+ */
+export function frequencyToNote(freq: number, referencePitch: number = 440): string {
   if (freq < 50) return "rest";
   
-  const halfSteps = 12 * Math.log2(freq / c0);
-  const octave = Math.floor(halfSteps / 12);
-  const note = Math.round(halfSteps % 12);
-  
-  const clampedNote = ((note % 12) + 12) % 12;
-  return `${NOTE_NAMES[clampedNote]}${octave}`;
+  // Round to the nearest note before splitting it into pitch class and octave,
+  // so a sharp B names the C above it
+  return midiToNote(frequencyToMidi(freq, referencePitch));
 }
 
 /**
  * Convert frequency to pitch class (0-11)
  */
-export function frequencyToPitchClass(freq: number): number {
+export function frequencyToPitchClass(freq: number, referencePitch: number = 440): number {
   if (freq < 50) return -1;
-  const a4 = 440;
+  const a4 = referencePitch;
   const c0 = a4 * Math.pow(2, -4.75);
   const halfSteps = 12 * Math.log2(freq / c0);
   return ((Math.round(halfSteps) % 12) + 12) % 12;
 }
 
+/**
+ * Convert frequency to a fractional MIDI note number
+ */
+export function frequencyToMidi(freq: number, referencePitch: number = 440): number {
+  return 69 + 12 * Math.log2(freq / referencePitch);
+}
+
+/**
+ * Deviation of a frequency from the nearest equal-tempered note, in cents (-50 to 50)
+ */
+export function frequencyToCents(freq: number, referencePitch: number = 440): number {
+  const midi = frequencyToMidi(freq, referencePitch);
+  return (midi - Math.round(midi)) * 100;
+}
+
+/**
+ * Convert MIDI note number to note name
+ */
+export function midiToNote(midi: number): string {
+  const rounded = Math.round(midi);
+  return `${NOTE_NAMES[((rounded % 12) + 12) % 12]}${Math.floor(rounded / 12) - 1}`;
+}
+
+/**
+ * Convert note name to MIDI note number (-1 if unparseable)
+ */
+export function noteToMidi(note: string): number {
+  const match = note.match(/^([a-gs]+)(-?\d+)$/);
+  if (!match) return -1;
+  
+  const noteIndex = NOTE_NAMES.indexOf(match[1]);
+  if (noteIndex === -1) return -1;
+  
+  return (parseInt(match[2]) + 1) * 12 + noteIndex;
+}
+
+/**
+ * Convert MIDI note number to frequency
+ */
+export function midiToFrequency(midi: number, referencePitch: number = 440): number {
+  return referencePitch * Math.pow(2, (midi - 69) / 12);
+}
+
 /**
  * Convert note name to frequency
  */
-export function noteToFrequency(note: string): number {
-  const match = note.match(/^([a-gs]+)(\d+)$/);
+export function noteToFrequency(note: string, referencePitch: number = 440): number {
+  const match = note.match(/^([a-gs]+)(-?\d+)$/);
   if (!match) return 0;
   
   const [, noteName, octaveStr] = match;
@@ -74,7 +298,7 @@ export function noteToFrequency(note: string): number {
   
   if (noteIndex === -1) return 0;
   
-  const a4 = 440;
+  const a4 = referencePitch;
   const halfSteps = (octave - 4) * 12 + noteIndex - 9;
   return a4 * Math.pow(2, halfSteps / 12);
 }
@@ -83,7 +307,7 @@ export function noteToFrequency(note: string): number {
  * Transpose a note by semitones
  */
 export function transposeNote(note: string, semitones: number): string {
-  const match = note.match(/^([a-gs]+)(\d+)$/);
+  const match = note.match(/^([a-gs]+)(-?\d+)$/);
   if (!match) return note;
   
   const [, noteName, octaveStr] = match;
@@ -102,7 +326,7 @@ export function transposeNote(note: string, semitones: number): string {
  * Format note for Strudel notation
  */
 export function formatNoteForStrudel(note: string): string {
-  const match = note.match(/^([A-Ga-g])([#b]?)(\d+)$/);
+  const match = note.match(/^([A-Ga-g])([#b]?)(-?\d+)$/);
   if (!match) return note.toLowerCase();
   
   const [, noteName, accidental, octave] = match;
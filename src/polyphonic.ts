@@ -0,0 +1,214 @@
+/**
+ * Polyphonic transcription using harmonic summation over a spectrogram
+ */
+
+import { Note, PolyphonicOptions } from "./types";
+import { magnitudeSpectrum } from "./fft";
+import { frequencyToMidi, midiToNote, midiToFrequency } from "./pitch";
+import { msToSamples } from "./resample";
+
+// Weight of harmonic h is HARMONIC_DECAY^(h - 1)
+const HARMONIC_DECAY = 0.8;
+
+// A fundamental must reach this fraction of the frame's loudest bin
+const MIN_FUNDAMENTAL_RATIO = 0.1;
+
+interface ActiveNote {
+  startFrame: number;
+  lastFrame: number;
+  peakSalience: number;
+  // Salience-weighted sum of the per-frame cents deviations
+  centsSum: number;
+  salienceSum: number;
+}
+
+function peakMagnitude(magnitudes: Float64Array, bin: number): number {
+  let peak = 0;
+  for (let k = Math.max(0, bin - 1); k <= Math.min(magnitudes.length - 1, bin + 1); k++) {
+    peak = Math.max(peak, magnitudes[k]);
+  }
+  return peak;
+}
+
+function harmonicSalience(magnitudes: Float64Array, f0: number, binHz: number, harmonics: number): number {
+  let salience = 0;
+  for (let h = 1; h <= harmonics; h++) {
+    const bin = Math.round((f0 * h) / binHz);
+    if (bin >= magnitudes.length) break;
+    salience += Math.pow(HARMONIC_DECAY, h - 1) * peakMagnitude(magnitudes, bin);
+  }
+  return salience;
+}
+
+/**
+ * Fundamental frequency implied by the harmonic peaks near f0, each located
+ * by parabolic interpolation and weighted by its magnitude
+ */
+function refineFundamental(magnitudes: Float64Array, f0: number, binHz: number, harmonics: number): number {
+  let sum = 0;
+  let weight = 0;
+  for (let h = 1; h <= harmonics; h++) {
+    let bin = Math.round((f0 * h) / binHz);
+    if (bin + 1 >= magnitudes.length) break;
+    if (bin < 1) continue;
+    if (magnitudes[bin - 1] > magnitudes[bin]) bin--;
+    else if (magnitudes[bin + 1] > magnitudes[bin]) bin++;
+    if (bin < 1 || bin + 1 >= magnitudes.length) continue;
+
+    const [left, centre, right] = [magnitudes[bin - 1], magnitudes[bin], magnitudes[bin + 1]];
+    const curvature = left - 2 * centre + right;
+    const offset = curvature < 0 ? (0.5 * (left - right)) / curvature : 0;
+    sum += (((bin + offset) * binHz) / h) * centre;
+    weight += centre;
+  }
+  return weight > 0 ? sum / weight : f0;
+}
+
+/**
+ * Detect the set of simultaneous pitches in one frame by iterative
+ * harmonic summation and harmonic suppression, with each pitch's deviation
+ * from equal temperament in cents
+ */
+export function detectMultiplePitches(
+  frame: Float32Array,
+  sampleRate: number,
+  options: PolyphonicOptions = {}
+): { midi: number; salience: number; cents: number }[] {
+  const minMidi = options.minMidi ?? 36;
+  const maxMidi = options.maxMidi ?? 96;
+  const maxPolyphony = options.maxPolyphony ?? 6;
+  const harmonics = options.harmonics ?? 8;
+  const threshold = options.threshold ?? 0.3;
+
+  const magnitudes = magnitudeSpectrum(frame);
+  const binHz = sampleRate / ((magnitudes.length - 1) * 2);
+  const loudestBin = Math.max(...magnitudes);
+  if (loudestBin <= 0) return [];
+
+  const pitches: { midi: number; salience: number; cents: number }[] = [];
+  let firstSalience = 0;
+
+  while (pitches.length < maxPolyphony) {
+    let bestMidi = -1;
+    let bestSalience = 0;
+
+    for (let midi = minMidi; midi <= maxMidi; midi++) {
+      const f0 = midiToFrequency(midi, options.referencePitch);
+      const fundamentalBin = Math.round(f0 / binHz);
+      if (fundamentalBin >= magnitudes.length) break;
+      if (peakMagnitude(magnitudes, fundamentalBin) < loudestBin * MIN_FUNDAMENTAL_RATIO) continue;
+
+      const salience = harmonicSalience(magnitudes, f0, binHz, harmonics);
+      if (salience > bestSalience) {
+        bestSalience = salience;
+        bestMidi = midi;
+      }
+    }
+
+    if (bestMidi === -1) break;
+    if (pitches.length === 0) firstSalience = bestSalience;
+    if (bestSalience < firstSalience * threshold) break;
+
+    // Subtract the detected note's expected harmonic series, leaving any
+    // excess energy to support notes that share those partials
+    const f0 = midiToFrequency(bestMidi, options.referencePitch);
+    const frequency = refineFundamental(magnitudes, f0, binHz, harmonics);
+    const cents = Math.max(-50, Math.min(50, (frequencyToMidi(frequency, options.referencePitch) - bestMidi) * 100));
+    pitches.push({ midi: bestMidi, salience: bestSalience, cents });
+
+    const fundamental = peakMagnitude(magnitudes, Math.round(f0 / binHz));
+    for (let h = 1; h <= harmonics; h++) {
+      const bin = Math.round((f0 * h) / binHz);
+      const expected = fundamental * Math.pow(HARMONIC_DECAY, h - 1);
+      for (let k = Math.max(0, bin - 1); k <= Math.min(magnitudes.length - 1, bin + 1); k++) {
+        magnitudes[k] = Math.max(0, magnitudes[k] - expected);
+      }
+    }
+  }
+
+  return pitches;
+}
+
+/**
+ * Transcribe polyphonic audio into overlapping notes with velocity
+ */
+export function transcribePolyphonic(
+  data: Float32Array,
+  sampleRate: number,
+  options: PolyphonicOptions = {}
+): { notes: Note[]; pitchClassHistogram: number[] } {
+  const frameSize = msToSamples(options.frameSizeMs ?? 185.8, sampleRate);
+  const hopSize = msToSamples(options.hopSizeMs ?? 46.4, sampleRate);
+  const amplitudeThreshold = options.amplitudeThreshold ?? 0.01;
+  const minDuration = (options.minNoteDuration ?? 100) / 1000;
+
+  const pitchClassHistogram = new Array(12).fill(0);
+  const active = new Map<number, ActiveNote>();
+  const finished: { midi: number; note: ActiveNote }[] = [];
+  let frameIndex = 0;
+
+  const closeNotes = (keep: Set<number>) => {
+    for (const [midi, note] of active) {
+      // Allow a single missed frame before ending a note
+      if (!keep.has(midi) && frameIndex - note.lastFrame > 1) {
+        finished.push({ midi, note });
+        active.delete(midi);
+      }
+    }
+  };
+
+  for (let i = 0; i + frameSize <= data.length; i += hopSize, frameIndex++) {
+    const frame = data.subarray(i, i + frameSize);
+
+    let rms = 0;
+    for (let j = 0; j < frame.length; j++) {
+      rms += frame[j] * frame[j];
+    }
+    rms = Math.sqrt(rms / frame.length);
+
+    const pitches = rms < amplitudeThreshold ? [] : detectMultiplePitches(frame, sampleRate, options);
+    const present = new Set<number>();
+
+    for (const { midi, salience, cents } of pitches) {
+      present.add(midi);
+      pitchClassHistogram[midi % 12] += salience;
+
+      const note = active.get(midi);
+      if (note) {
+        note.lastFrame = frameIndex;
+        note.peakSalience = Math.max(note.peakSalience, salience);
+        note.centsSum += cents * salience;
+        note.salienceSum += salience;
+      } else {
+        active.set(midi, {
+          startFrame: frameIndex,
+          lastFrame: frameIndex,
+          peakSalience: salience,
+          centsSum: cents * salience,
+          salienceSum: salience,
+        });
+      }
+    }
+
+    closeNotes(present);
+  }
+
+  frameIndex = Number.POSITIVE_INFINITY;
+  closeNotes(new Set());
+
+  const maxSalience = finished.reduce((max, { note }) => Math.max(max, note.peakSalience), 0);
+  const hopDuration = hopSize / sampleRate;
+
+  const notes = finished
+    .map(({ midi, note }) => ({
+      note: midiToNote(midi),
+      time: note.startFrame * hopDuration,
+      duration: (note.lastFrame - note.startFrame + 1) * hopDuration,
+      velocity: maxSalience > 0 ? note.peakSalience / maxSalience : 0,
+      cents: note.salienceSum > 0 ? Math.round((note.centsSum / note.salienceSum) * 10) / 10 : 0,
+    }))
+    .filter(note => note.duration > minDuration)
+    .sort((a, b) => a.time - b.time);
+
+  return { notes, pitchClassHistogram };
+}
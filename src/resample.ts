@@ -0,0 +1,92 @@
+/**
+ * Sample-rate conversion using a Kaiser-windowed sinc interpolator
+ */
+
+import { ResampleOptions } from "./types";
+
+// Kernel samples stored per zero crossing; intermediate phases are interpolated linearly
+const TABLE_RESOLUTION = 512;
+
+/**
+ * Zeroth-order modified Bessel function of the first kind (for the Kaiser window)
+ */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 50; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k));
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+/**
+ * One-sided windowed-sinc kernel sampled at TABLE_RESOLUTION points per zero crossing
+ */
+function buildKernelTable(zeroCrossings: number, beta: number): Float64Array {
+  const table = new Float64Array(zeroCrossings * TABLE_RESOLUTION + 2);
+  const i0Beta = besselI0(beta);
+
+  for (let i = 0; i < table.length; i++) {
+    const x = i / TABLE_RESOLUTION;
+    if (x >= zeroCrossings) break;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const ratio = x / zeroCrossings;
+    table[i] = sinc * besselI0(beta * Math.sqrt(1 - ratio * ratio)) / i0Beta;
+  }
+
+  return table;
+}
+
+/**
+ * Convert milliseconds to a whole number of samples (at least one)
+ */
+export function msToSamples(ms: number, sampleRate: number): number {
+  return Math.max(1, Math.round((ms / 1000) * sampleRate));
+}
+
+/**
+ * Resample audio to a new sample rate with band-limited sinc interpolation
+ */
+export function resample(
+  data: Float32Array,
+  fromRate: number,
+  toRate: number,
+  options: ResampleOptions = {}
+): Float32Array {
+  if (!(fromRate > 0 && Number.isFinite(fromRate)) || !(toRate > 0 && Number.isFinite(toRate))) {
+    throw new RangeError(`Cannot resample from ${fromRate} Hz to ${toRate} Hz: rates must be positive and finite`);
+  }
+  if (fromRate === toRate || data.length === 0) return data.slice();
+
+  const zeroCrossings = options.zeroCrossings ?? 16;
+  const rolloff = options.rolloff ?? 0.95;
+  const beta = options.kaiserBeta ?? 8.6;
+
+  const table = buildKernelTable(zeroCrossings, beta);
+  const ratio = toRate / fromRate;
+  // When downsampling, stretch the kernel so its cutoff sits below the new Nyquist
+  const scale = Math.min(1, ratio) * rolloff;
+  const halfWidth = zeroCrossings / scale;
+
+  const output = new Float32Array(Math.round(data.length * ratio));
+
+  for (let n = 0; n < output.length; n++) {
+    const center = n / ratio;
+    const first = Math.max(0, Math.ceil(center - halfWidth));
+    const last = Math.min(data.length - 1, Math.floor(center + halfWidth));
+
+    let sum = 0;
+    for (let i = first; i <= last; i++) {
+      const position = Math.abs(center - i) * scale * TABLE_RESOLUTION;
+      const index = Math.floor(position);
+      if (index >= table.length - 1) continue;
+      const fraction = position - index;
+      sum += data[i] * (table[index] + fraction * (table[index + 1] - table[index]));
+    }
+    output[n] = sum * scale;
+  }
+
+  return output;
+}
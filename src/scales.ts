@@ -0,0 +1,89 @@
+/**
+ * Scales and scale-degree conversion (Strudel's n() + scale())
+ */
+
+import { ScaleName } from "./types";
+
+export const SCALE_INTERVALS: Record<ScaleName, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  ionian: [0, 2, 4, 5, 7, 9, 11],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  aeolian: [0, 2, 3, 5, 7, 8, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+  "harmonic minor": [0, 2, 3, 5, 7, 8, 11],
+  "melodic minor": [0, 2, 3, 5, 7, 9, 11],
+  "major pentatonic": [0, 2, 4, 7, 9],
+  "minor pentatonic": [0, 3, 5, 7, 10],
+  blues: [0, 3, 5, 6, 7, 10],
+  "whole tone": [0, 2, 4, 6, 8, 10],
+};
+
+const TONIC_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+const NATURAL_PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+/**
+ * Zero-based scale degree of a MIDI note relative to a root, or null if the
+ * note is not in the scale
+ */
+export function midiToScaleDegree(midi: number, rootMidi: number, scale: ScaleName): number | null {
+  const intervals = SCALE_INTERVALS[scale];
+  const offset = Math.round(midi) - rootMidi;
+  const octave = Math.floor(offset / 12);
+  const index = intervals.indexOf(offset - octave * 12);
+  return index === -1 ? null : octave * intervals.length + index;
+}
+
+/**
+ * MIDI note of a zero-based scale degree relative to a root
+ */
+export function scaleDegreeToMidi(degree: number, rootMidi: number, scale: ScaleName): number {
+  const intervals = SCALE_INTERVALS[scale];
+  const octave = Math.floor(degree / intervals.length);
+  return rootMidi + octave * 12 + intervals[degree - octave * intervals.length];
+}
+
+/**
+ * Whether a scale has a minor third above its tonic
+ */
+export function isMinorScale(scale: ScaleName): boolean {
+  const intervals = SCALE_INTERVALS[scale];
+  return intervals.includes(3) && !intervals.includes(4);
+}
+
+/**
+ * Strudel scale name for a tonic pitch class, such as "D:minor:pentatonic",
+ * optionally with an octave ("D3:minor:pentatonic"); spaces become colons so
+ * the name stays a single mini-notation token
+ */
+export function strudelScaleName(tonic: number, scale: ScaleName, octave?: number): string {
+  return `${TONIC_NAMES[((tonic % 12) + 12) % 12]}${octave ?? ""}:${scale.replace(/ /g, ":")}`;
+}
+
+/**
+ * Format a Strudel scale name anchored at a root note, such as "C#4:minor"
+ */
+export function formatStrudelScale(rootMidi: number, scale: ScaleName): string {
+  return strudelScaleName(rootMidi, scale, Math.floor(rootMidi / 12) - 1);
+}
+
+/**
+ * Parse a Strudel scale name ("C4:major", "eb:minor", "D:harmonic:minor");
+ * the octave defaults to 3
+ */
+export function parseStrudelScale(name: string): { rootMidi: number; scale: ScaleName } | null {
+  const match = name.trim().match(/^([A-Ga-g])([#sbf]?)(-?\d+)?:([\w:]+)$/);
+  if (!match) return null;
+
+  const [, letter, accidental, octave] = match;
+  const scale = match[4].replace(/:/g, " ");
+  if (!(scale in SCALE_INTERVALS)) return null;
+
+  const shift = accidental === "#" || accidental === "s" ? 1 : accidental ? -1 : 0;
+  const rootMidi = (Number(octave ?? 3) + 1) * 12 + NATURAL_PITCH_CLASSES[letter.toUpperCase()] + shift;
+  return { rootMidi, scale: scale as ScaleName };
+}
@@ -0,0 +1,296 @@
+/**
+ * Short-time Fourier transform and spectrogram helpers
+ */
+
+import {
+  ComplexSpectrum,
+  ConstantQOptions,
+  MelSpectrogramOptions,
+  Spectrogram,
+  Stft,
+  StftOptions,
+} from "./types";
+import { createWindow, fft, irfft, nextPowerOfTwo, rfft } from "./fft";
+import { resample } from "./resample";
+
+// Floor applied before taking logarithms, in power units
+const LOG_FLOOR = 1e-10;
+
+// Share of a decimated signal's sample rate below which its frequencies are free of aliasing
+const DECIMATED_PASSBAND = 0.45;
+
+// Constant-Q spectral kernel bins below this fraction of the kernel's peak are dropped
+const KERNEL_SPARSITY = 0.005;
+
+/**
+ * A constant-Q kernel in the frequency domain, keeping only its significant
+ * positive-frequency bins
+ */
+interface SparseKernel {
+  indices: number[];
+  re: number[];
+  im: number[];
+}
+
+/**
+ * Short-time Fourier transform. Frame k starts at sample k·hopSize; frames
+ * run while a full frame fits in the signal.
+ */
+export function stft(data: Float32Array, sampleRate: number, options: StftOptions = {}): Stft {
+  const frameSize = options.frameSize ?? 2048;
+  const hopSize = options.hopSize ?? 512;
+  const windowType = options.window ?? "hann";
+  const fftSize = Math.max(frameSize, options.fftSize ?? nextPowerOfTwo(frameSize));
+  const window = createWindow(windowType, frameSize);
+
+  const frames: ComplexSpectrum[] = [];
+  const windowed = new Float64Array(frameSize);
+  for (let start = 0; start + frameSize <= data.length; start += hopSize) {
+    for (let i = 0; i < frameSize; i++) {
+      windowed[i] = data[start + i] * window[i];
+    }
+    frames.push(rfft(windowed, fftSize));
+  }
+
+  return { frames, frameSize, hopSize, fftSize, window: windowType, sampleRate };
+}
+
+/**
+ * Inverse STFT by weighted overlap-add, normalized by the summed squared
+ * window so modified spectra resynthesize without amplitude ripple
+ */
+export function istft(transform: Stft, length?: number): Float32Array {
+  const { frames, frameSize, hopSize, fftSize } = transform;
+  const window = createWindow(transform.window, frameSize);
+  const outputLength = length ?? (frames.length > 0 ? (frames.length - 1) * hopSize + frameSize : 0);
+  const output = new Float64Array(outputLength);
+  const weights = new Float64Array(outputLength);
+
+  frames.forEach((frame, index) => {
+    const samples = irfft(frame, fftSize);
+    const start = index * hopSize;
+    for (let i = 0; i < frameSize && start + i < outputLength; i++) {
+      output[start + i] += samples[i] * window[i];
+      weights[start + i] += window[i] * window[i];
+    }
+  });
+
+  const result = new Float32Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    result[i] = weights[i] > 1e-8 ? output[i] / weights[i] : 0;
+  }
+  return result;
+}
+
+/**
+ * Frame centre times and bin frequencies of an STFT
+ */
+function stftAxes(transform: Stft): { times: number[]; frequencies: number[] } {
+  const { frames, frameSize, hopSize, fftSize, sampleRate } = transform;
+  return {
+    times: frames.map((_, k) => (k * hopSize + frameSize / 2) / sampleRate),
+    frequencies: Array.from({ length: Math.floor(fftSize / 2) + 1 }, (_, k) => (k * sampleRate) / fftSize),
+  };
+}
+
+/**
+ * Magnitude spectrogram |X|
+ */
+export function magnitudeSpectrogram(data: Float32Array, sampleRate: number, options: StftOptions = {}): Spectrogram {
+  const transform = stft(data, sampleRate, options);
+  const values = transform.frames.map(({ re, im }) => re.map((r, k) => Math.sqrt(r * r + im[k] * im[k])));
+  return { values, ...stftAxes(transform) };
+}
+
+/**
+ * Power spectrogram |X|²
+ */
+export function powerSpectrogram(data: Float32Array, sampleRate: number, options: StftOptions = {}): Spectrogram {
+  const transform = stft(data, sampleRate, options);
+  const values = transform.frames.map(({ re, im }) => re.map((r, k) => r * r + im[k] * im[k]));
+  return { values, ...stftAxes(transform) };
+}
+
+/**
+ * Convert a frequency to the mel scale (HTK formula)
+ */
+export function hzToMel(frequency: number): number {
+  return 2595 * Math.log10(1 + frequency / 700);
+}
+
+/**
+ * Convert a mel value back to Hz
+ */
+export function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+/**
+ * Triangular mel filterbank: one weight array over the FFT bins per band
+ */
+export function melFilterbank(
+  sampleRate: number,
+  fftSize: number,
+  melBands: number,
+  minFreq: number = 0,
+  maxFreq: number = sampleRate / 2
+): Float64Array[] {
+  const bins = Math.floor(fftSize / 2) + 1;
+  const minMel = hzToMel(minFreq);
+  const maxMel = hzToMel(maxFreq);
+  const edges = Array.from({ length: melBands + 2 }, (_, i) => melToHz(minMel + ((maxMel - minMel) * i) / (melBands + 1)));
+
+  return Array.from({ length: melBands }, (_, band) => {
+    const [lower, centre, upper] = [edges[band], edges[band + 1], edges[band + 2]];
+    const weights = new Float64Array(bins);
+    for (let k = 0; k < bins; k++) {
+      const frequency = (k * sampleRate) / fftSize;
+      if (frequency > lower && frequency < upper) {
+        weights[k] = frequency <= centre
+          ? (frequency - lower) / (centre - lower)
+          : (upper - frequency) / (upper - centre);
+      }
+    }
+    return weights;
+  });
+}
+
+/**
+ * Mel-band power spectrogram; frequencies are the band centres
+ */
+export function melSpectrogram(data: Float32Array, sampleRate: number, options: MelSpectrogramOptions = {}): Spectrogram {
+  const melBands = options.melBands ?? 40;
+  const minFreq = options.minFreq ?? 0;
+  const maxFreq = options.maxFreq ?? sampleRate / 2;
+
+  const power = powerSpectrogram(data, sampleRate, options);
+  const fftSize = (power.frequencies.length - 1) * 2;
+  const filters = melFilterbank(sampleRate, fftSize, melBands, minFreq, maxFreq);
+
+  const values = power.values.map(frame => Float64Array.from(filters, weights => {
+    let sum = 0;
+    for (let k = 0; k < frame.length; k++) {
+      sum += weights[k] * frame[k];
+    }
+    return sum;
+  }));
+
+  const minMel = hzToMel(minFreq);
+  const maxMel = hzToMel(maxFreq);
+  const frequencies = Array.from({ length: melBands }, (_, i) => melToHz(minMel + ((maxMel - minMel) * (i + 1)) / (melBands + 1)));
+  return { values, times: power.times, frequencies };
+}
+
+/**
+ * Log-mel spectrogram in decibels
+ */
+export function logMelSpectrogram(data: Float32Array, sampleRate: number, options: MelSpectrogramOptions = {}): Spectrogram {
+  const mel = melSpectrogram(data, sampleRate, options);
+  return {
+    ...mel,
+    values: mel.values.map(frame => frame.map(v => 10 * Math.log10(Math.max(v, LOG_FLOOR)))),
+  };
+}
+
+/**
+ * Frequency-domain form of a windowed complex exponential centred in an FFT
+ * frame, scaled so that summing its product with a frame's spectrum equals
+ * correlating the frame with the kernel in time
+ */
+function spectralKernel(frequency: number, sampleRate: number, length: number, fftSize: number): SparseKernel {
+  const window = createWindow("hann", length);
+  const offset = fftSize / 2 - Math.floor(length / 2);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  for (let n = 0; n < length; n++) {
+    const angle = (-2 * Math.PI * frequency * n) / sampleRate;
+    // Conjugated, so the forward FFT yields the conjugate of the kernel's inverse transform
+    re[offset + n] = (window[n] * Math.cos(angle)) / length;
+    im[offset + n] = -(window[n] * Math.sin(angle)) / length;
+  }
+  fft(re, im);
+
+  const bins = fftSize / 2 + 1;
+  let peak = 0;
+  for (let k = 0; k < bins; k++) peak = Math.max(peak, Math.hypot(re[k], im[k]));
+  const kernel: SparseKernel = { indices: [], re: [], im: [] };
+  for (let k = 0; k < bins; k++) {
+    if (Math.hypot(re[k], im[k]) < KERNEL_SPARSITY * peak) continue;
+    kernel.indices.push(k);
+    kernel.re.push(re[k] / fftSize);
+    kernel.im.push(-im[k] / fftSize);
+  }
+  return kernel;
+}
+
+/**
+ * Constant-Q magnitude spectrogram: geometrically spaced bins whose analysis
+ * windows shrink with frequency (Brown, 1991). Frame k is centred on sample
+ * k·hopSize; samples outside the signal count as silence. Each octave is
+ * analyzed on a signal decimated by two per octave below the top, by
+ * multiplying one short FFT per frame with sparse spectral kernels (Brown &
+ * Puckette, 1992), so the cost per frame is a few small FFTs per octave.
+ */
+export function constantQSpectrogram(data: Float32Array, sampleRate: number, options: ConstantQOptions = {}): Spectrogram {
+  const hopSize = options.hopSize ?? 512;
+  const minFreq = options.minFreq ?? 32.7;
+  const binsPerOctave = options.binsPerOctave ?? 12;
+  const octaves = options.octaves ?? 7;
+  const q = 1 / (Math.pow(2, 1 / binsPerOctave) - 1);
+
+  const frequencies: number[] = [];
+  for (let bin = 0; bin < binsPerOctave * octaves; bin++) {
+    const frequency = minFreq * Math.pow(2, bin / binsPerOctave);
+    if (frequency >= sampleRate / 2) break;
+    frequencies.push(frequency);
+  }
+
+  // Octaves counted down from the highest bin, each on the most decimated
+  // signal whose passband still holds its highest bin
+  const signals = [data];
+  const octaveBands: { bins: number[]; signal: Float32Array; factor: number; fftSize: number; kernels: SparseKernel[] }[] = [];
+  for (let top = frequencies.length; top > 0; top -= binsPerOctave) {
+    const bins = Array.from({ length: Math.min(binsPerOctave, top) }, (_, i) => top - Math.min(binsPerOctave, top) + i);
+    let depth = octaveBands.length;
+    while (depth > 0 && frequencies[top - 1] >= DECIMATED_PASSBAND * (sampleRate / Math.pow(2, depth))) depth--;
+    while (signals.length <= depth) {
+      const rate = sampleRate / Math.pow(2, signals.length - 1);
+      signals.push(resample(signals[signals.length - 1], rate, rate / 2));
+    }
+
+    // Hann-windowed complex kernels, normalized by their length and centred in the FFT frame
+    const signal = signals[depth];
+    const rate = sampleRate / Math.pow(2, depth);
+    const lengths = bins.map(bin => Math.min(Math.ceil((q * rate) / frequencies[bin]), Math.max(1, signal.length)));
+    const fftSize = nextPowerOfTwo(Math.max(...lengths));
+    const kernels = bins.map((bin, i) => spectralKernel(frequencies[bin], rate, lengths[i], fftSize));
+    octaveBands.push({ bins, signal, factor: Math.pow(2, depth), fftSize, kernels });
+  }
+
+  const frameCount = Math.floor(data.length / hopSize) + 1;
+  const values = Array.from({ length: frameCount }, () => new Float64Array(frequencies.length));
+  const times = Array.from({ length: frameCount }, (_, frame) => (frame * hopSize) / sampleRate);
+
+  for (const { bins, signal, factor, fftSize, kernels } of octaveBands) {
+    const buffer = new Float64Array(fftSize);
+    for (let frame = 0; frame < frameCount; frame++) {
+      const start = Math.round((frame * hopSize) / factor) - fftSize / 2;
+      for (let n = 0; n < fftSize; n++) {
+        buffer[n] = start + n >= 0 && start + n < signal.length ? signal[start + n] : 0;
+      }
+      const spectrum = rfft(buffer, fftSize);
+      kernels.forEach((kernel, i) => {
+        let sumRe = 0;
+        let sumIm = 0;
+        for (let j = 0; j < kernel.indices.length; j++) {
+          const k = kernel.indices[j];
+          sumRe += spectrum.re[k] * kernel.re[j] - spectrum.im[k] * kernel.im[j];
+          sumIm += spectrum.re[k] * kernel.im[j] + spectrum.im[k] * kernel.re[j];
+        }
+        values[frame][bins[i]] = Math.sqrt(sumRe * sumRe + sumIm * sumIm);
+      });
+    }
+  }
+
+  return { values, times, frequencies };
+}
@@ -0,0 +1,318 @@
+/**
+ * Streaming (incremental) analysis for live input
+ */
+
+import {
+  Note,
+  StreamingAnalyzerOptions,
+  StreamingEvent,
+  StreamingEventMap,
+  StreamingEventType,
+} from "./types";
+import { estimatePitch, frequencyToNote, frequencyToPitchClass } from "./pitch";
+import { magnitudeSpectrum } from "./fft";
+import { estimateBeatPeriod } from "./beats";
+import { detectKeyDetailed } from "./key";
+
+type Listener<K extends StreamingEventType> = (event: StreamingEventMap[K]) => void;
+
+// Onsets must exceed the recent mean by this many standard deviations
+const ONSET_THRESHOLD_STDS = 1.5;
+
+// Fraction of the beat period within which an onset re-anchors the beat phase
+const BEAT_CAPTURE_WINDOW = 0.2;
+
+// Per-update decay of the key histogram, so older material fades out
+const KEY_HISTOGRAM_DECAY = 0.75;
+
+/**
+ * Stateful analyzer that accepts audio in chunks and emits note-on/note-off,
+ * beat and key-change events as they are detected
+ */
+export class StreamingAnalyzer {
+  readonly sampleRate: number;
+
+  private readonly frameSize: number;
+  private readonly hopSize: number;
+  private readonly options: StreamingAnalyzerOptions;
+  private readonly listeners: { [K in StreamingEventType]: Set<Listener<K>> } = {
+    noteon: new Set(),
+    noteoff: new Set(),
+    beat: new Set(),
+    keychange: new Set(),
+  };
+
+  private pending = new Float32Array(0);
+  private sampleOffset = 0;
+  private events: StreamingEvent[] = [];
+
+  // Note tracking
+  private activeNote: { note: string; time: number; velocity: number } | null = null;
+  private candidate: { note: string | null; time: number; rms: number } | null = null;
+  private peakRms = 0;
+  private completedNotes: Note[] = [];
+
+  // Onset and beat tracking
+  private previousSpectrum: Float64Array | null = null;
+  private onsetHistory: number[] = [];
+  private hopsSinceTempoUpdate = 0;
+  private beatPeriod: number | null = null;
+  private lastBeat: number | null = null;
+
+  // Key tracking
+  private pitchClassHistogram: number[] = new Array(12).fill(0);
+  private lastKeyUpdate = 0;
+  private key: string | null = null;
+  private pendingKey: string | null = null;
+
+  constructor(sampleRate: number, options: StreamingAnalyzerOptions = {}) {
+    this.sampleRate = sampleRate;
+    this.frameSize = options.frameSize ?? 2048;
+    this.hopSize = options.hopSize ?? 512;
+    this.options = options;
+  }
+
+  /**
+   * Current tempo estimate in BPM, or null until enough audio has been seen
+   */
+  get tempo(): number | null {
+    return this.beatPeriod ? 60 / this.beatPeriod : null;
+  }
+
+  /**
+   * Current key estimate, or null until one has been detected
+   */
+  get currentKey(): string | null {
+    return this.key;
+  }
+
+  /**
+   * Notes completed so far
+   */
+  get notes(): Note[] {
+    return [...this.completedNotes];
+  }
+
+  /**
+   * Current stream position in seconds
+   */
+  get currentTime(): number {
+    return this.sampleOffset / this.sampleRate;
+  }
+
+  on<K extends StreamingEventType>(type: K, listener: Listener<K>): this {
+    this.listeners[type].add(listener);
+    return this;
+  }
+
+  off<K extends StreamingEventType>(type: K, listener: Listener<K>): this {
+    this.listeners[type].delete(listener);
+    return this;
+  }
+
+  /**
+   * Feed a chunk of mono samples; returns the events detected in it
+   */
+  process(chunk: Float32Array): StreamingEvent[] {
+    const samples = new Float32Array(this.pending.length + chunk.length);
+    samples.set(this.pending);
+    samples.set(chunk, this.pending.length);
+
+    let position = 0;
+    for (; position + this.frameSize <= samples.length; position += this.hopSize) {
+      this.analyzeFrame(samples.subarray(position, position + this.frameSize), (this.sampleOffset + position) / this.sampleRate);
+    }
+
+    this.pending = samples.slice(position);
+    this.sampleOffset += position;
+    return this.drainEvents();
+  }
+
+  /**
+   * End the stream, closing any sounding note
+   */
+  flush(): StreamingEvent[] {
+    const end = (this.sampleOffset + this.pending.length) / this.sampleRate;
+    this.endActiveNote(end);
+    this.candidate = null;
+    return this.drainEvents();
+  }
+
+  /**
+   * Clear all state so the analyzer can be reused for a new stream
+   */
+  reset(): void {
+    this.pending = new Float32Array(0);
+    this.sampleOffset = 0;
+    this.events = [];
+    this.activeNote = null;
+    this.candidate = null;
+    this.peakRms = 0;
+    this.completedNotes = [];
+    this.previousSpectrum = null;
+    this.onsetHistory = [];
+    this.hopsSinceTempoUpdate = 0;
+    this.beatPeriod = null;
+    this.lastBeat = null;
+    this.pitchClassHistogram = new Array(12).fill(0);
+    this.lastKeyUpdate = 0;
+    this.key = null;
+    this.pendingKey = null;
+  }
+
+  private emit<K extends StreamingEventType>(type: K, payload: StreamingEventMap[K]): void {
+    this.events.push({ type, ...payload } as StreamingEvent);
+    this.listeners[type].forEach(listener => listener(payload));
+  }
+
+  private drainEvents(): StreamingEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  private analyzeFrame(frame: Float32Array, time: number): void {
+    let rms = 0;
+    for (let i = 0; i < frame.length; i++) {
+      rms += frame[i] * frame[i];
+    }
+    rms = Math.sqrt(rms / frame.length);
+    this.peakRms = Math.max(rms, this.peakRms * 0.999);
+
+    // Notes and onsets are timed at the frame centre, as in the offline analyzers
+    const centre = time + this.frameSize / 2 / this.sampleRate;
+    this.trackPitch(frame, centre, rms);
+    this.trackOnsets(frame, centre);
+    this.trackKey(time);
+  }
+
+  private trackPitch(frame: Float32Array, time: number, rms: number): void {
+    const amplitudeThreshold = this.options.amplitudeThreshold ?? 0.01;
+    const minDuration = (this.options.minNoteDuration ?? 100) / 1000;
+
+    let observed: string | null = null;
+    if (rms >= amplitudeThreshold) {
+      const estimate = estimatePitch(frame, this.sampleRate, {
+        algorithm: this.options.pitchAlgorithm ?? "yin",
+        voicingThreshold: this.options.minPitchConfidence ?? 0.5,
+      });
+      if (estimate.voiced) {
+        observed = frequencyToNote(estimate.frequency, this.options.referencePitch);
+        const pitchClass = frequencyToPitchClass(estimate.frequency, this.options.referencePitch);
+        if (pitchClass >= 0) this.pitchClassHistogram[pitchClass] += rms;
+      }
+    }
+
+    if (observed === (this.activeNote?.note ?? null)) {
+      this.candidate = null;
+      return;
+    }
+
+    // A change must persist for the minimum note duration before it is reported
+    if (!this.candidate || this.candidate.note !== observed) {
+      this.candidate = { note: observed, time, rms };
+      return;
+    }
+    this.candidate.rms = Math.max(this.candidate.rms, rms);
+    if (time - this.candidate.time < minDuration) return;
+
+    this.endActiveNote(this.candidate.time);
+    if (this.candidate.note) {
+      const velocity = this.peakRms > 0 ? Math.min(1, this.candidate.rms / this.peakRms) : 0;
+      this.activeNote = { note: this.candidate.note, time: this.candidate.time, velocity };
+      // Listeners get a copy so they can't alter the note before its noteoff
+      this.emit("noteon", { ...this.activeNote });
+    }
+    this.candidate = null;
+  }
+
+  private endActiveNote(time: number): void {
+    if (!this.activeNote) return;
+
+    const duration = Math.max(0, time - this.activeNote.time);
+    this.completedNotes.push({ note: this.activeNote.note, time: this.activeNote.time, duration });
+    this.emit("noteoff", { note: this.activeNote.note, time, duration });
+    this.activeNote = null;
+  }
+
+  private trackOnsets(frame: Float32Array, time: number): void {
+    const frameRate = this.sampleRate / this.hopSize;
+    const historyLength = Math.round((this.options.tempoHistory ?? 8) * frameRate);
+
+    const spectrum = magnitudeSpectrum(frame);
+    let flux = 0;
+    if (this.previousSpectrum) {
+      for (let k = 0; k < spectrum.length; k++) {
+        flux += Math.max(0, Math.log1p(spectrum[k]) - Math.log1p(this.previousSpectrum[k]));
+      }
+    }
+    this.previousSpectrum = spectrum;
+
+    const history = this.onsetHistory;
+    history.push(flux);
+    if (history.length > historyLength) history.shift();
+
+    // Re-estimate the tempo about once per second once four seconds are buffered
+    if (++this.hopsSinceTempoUpdate >= frameRate && history.length >= 4 * frameRate) {
+      this.hopsSinceTempoUpdate = 0;
+      const mean = history.reduce((a, b) => a + b, 0) / history.length;
+      const centred = history.map(v => Math.max(0, v - mean));
+      const period = estimateBeatPeriod(
+        centred,
+        frameRate,
+        this.options.minBpm ?? 60,
+        this.options.maxBpm ?? 200
+      );
+      this.beatPeriod = period / frameRate;
+    }
+
+    if (!this.beatPeriod || history.length < 3) return;
+
+    // Peak picking on the previous hop against an adaptive threshold
+    const n = history.length;
+    const mean = history.reduce((a, b) => a + b, 0) / n;
+    const std = Math.sqrt(history.reduce((a, v) => a + (v - mean) * (v - mean), 0) / n);
+    const isOnset = history[n - 2] > mean + ONSET_THRESHOLD_STDS * std
+      && history[n - 2] >= history[n - 3]
+      && history[n - 2] > history[n - 1];
+    const onsetTime = time - 1 / frameRate;
+
+    if (isOnset && this.lastBeat === null) {
+      this.lastBeat = onsetTime;
+      this.emit("beat", { time: onsetTime, tempo: 60 / this.beatPeriod });
+      return;
+    }
+    if (this.lastBeat === null) return;
+
+    const expected = this.lastBeat + this.beatPeriod;
+    if (isOnset && Math.abs(onsetTime - expected) < BEAT_CAPTURE_WINDOW * this.beatPeriod) {
+      this.lastBeat = onsetTime;
+      this.emit("beat", { time: onsetTime, tempo: 60 / this.beatPeriod });
+    } else if (time > expected + BEAT_CAPTURE_WINDOW * this.beatPeriod) {
+      // No onset near the expected beat: keep the beat going at the current tempo
+      this.lastBeat = expected;
+      this.emit("beat", { time: expected, tempo: 60 / this.beatPeriod });
+    }
+  }
+
+  private trackKey(time: number): void {
+    const interval = this.options.keyUpdateInterval ?? 2;
+    if (time - this.lastKeyUpdate < interval) return;
+    this.lastKeyUpdate = time;
+
+    if (this.pitchClassHistogram.every(v => v === 0)) return;
+    const { key, confidence } = detectKeyDetailed(this.pitchClassHistogram);
+    this.pitchClassHistogram = this.pitchClassHistogram.map(v => v * KEY_HISTOGRAM_DECAY);
+
+    // Require two consecutive agreeing estimates before reporting a change
+    if (key === this.key) {
+      this.pendingKey = null;
+    } else if (key === this.pendingKey || this.key === null) {
+      this.emit("keychange", { key, previousKey: this.key, time, confidence });
+      this.key = key;
+      this.pendingKey = null;
+    } else {
+      this.pendingKey = key;
+    }
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Structural segmentation: section boundaries where the repetition structure
+ * of chroma features changes, with repeated sections labeled A, B, A'
+ */
+
+import { StructureAnalysis, StructureOptions, StructureSection } from "./types";
+import { computeChromagram } from "./chroma";
+import { msToSamples } from "./resample";
+
+// Feature frames are merged in pairs beyond this count, bounding the matrices on long recordings
+const MAX_FEATURE_FRAMES = 2000;
+
+/**
+ * Cosine similarity between every pair of feature vectors
+ */
+export function selfSimilarityMatrix(features: number[][]): Float64Array[] {
+  const norms = features.map(vector => Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)));
+  const matrix = features.map(() => new Float64Array(features.length));
+
+  for (let i = 0; i < features.length; i++) {
+    for (let j = i; j < features.length; j++) {
+      let dot = 0;
+      for (let k = 0; k < features[i].length; k++) {
+        dot += features[i][k] * features[j][k];
+      }
+      const similarity = norms[i] > 0 && norms[j] > 0 ? dot / (norms[i] * norms[j]) : 0;
+      matrix[i][j] = similarity;
+      matrix[j][i] = similarity;
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Novelty from structure features (Serra et al., 2014): each frame's row of
+ * a mutual nearest-neighbour recurrence matrix, read by time lag and smoothed
+ * over time, describes what it repeats; novelty is how much that changes
+ * from one frame to the next.
+ */
+export function structureNovelty(matrix: Float64Array[], neighbours: number, smoothingRadius: number): number[] {
+  const n = matrix.length;
+  const k = Math.max(1, Math.min(n - 1, Math.round(neighbours)));
+
+  // The kth largest similarity of each frame to the others
+  const kth = matrix.map((row, i) => {
+    const others = Array.from(row).filter((_, j) => j !== i).sort((a, b) => b - a);
+    return others[k - 1] ?? Infinity;
+  });
+
+  // Recurrence by lag: frames i and i + lag are each among the other's nearest neighbours
+  const lagMatrix = matrix.map((row, i) => {
+    const lags = new Uint8Array(n);
+    for (let lag = 1; lag < n; lag++) {
+      const j = (i + lag) % n;
+      if (row[j] >= kth[i] && row[j] >= kth[j]) lags[lag] = 1;
+    }
+    return lags;
+  });
+
+  // Gaussian smoothing over time, one frame at a time against the previous one
+  const radius = Math.max(1, Math.round(smoothingRadius));
+  const taper = Array.from({ length: 2 * radius + 1 }, (_, i) => Math.exp(-0.5 * Math.pow((i - radius) / (0.5 * radius), 2)));
+  const smooth = (i: number): Float64Array => {
+    const features = new Float64Array(n);
+    let total = 0;
+    for (let d = -radius; d <= radius; d++) {
+      const source = lagMatrix[i + d];
+      if (!source) continue;
+      const weight = taper[d + radius];
+      total += weight;
+      for (let lag = 0; lag < n; lag++) features[lag] += weight * source[lag];
+    }
+    return features.map(value => value / total);
+  };
+
+  if (n === 0) return [];
+  const novelty = [0];
+  let previous = smooth(0);
+  for (let i = 1; i < n; i++) {
+    const features = smooth(i);
+    let distance = 0;
+    for (let lag = 0; lag < n; lag++) {
+      distance += Math.pow(features[lag] - previous[lag], 2);
+    }
+    novelty.push(distance);
+    previous = features;
+  }
+  return novelty;
+}
+
+/**
+ * Mean similarity along the diagonal between two frame ranges at their best
+ * alignment, scaled down by how much of the longer range goes unmatched
+ */
+function segmentSimilarity(matrix: Float64Array[], a: [number, number], b: [number, number]): number {
+  const lengthA = a[1] - a[0];
+  const lengthB = b[1] - b[0];
+  const longer = Math.max(lengthA, lengthB);
+  if (lengthA === 0 || lengthB === 0) return 0;
+  const maxLag = Math.ceil(longer / 8);
+
+  let best = -Infinity;
+  for (let lag = -maxLag - lengthA; lag <= maxLag + lengthB; lag++) {
+    let sum = 0;
+    let count = 0;
+    for (let k = Math.max(0, -lag); k < lengthA && k + lag < lengthB; k++) {
+      sum += matrix[a[0] + k][b[0] + k + lag];
+      count++;
+    }
+    // Alignments must overlap most of the shorter range
+    if (count > 0 && count >= Math.min(lengthA, lengthB) - maxLag) {
+      best = Math.max(best, (sum / count) * Math.sqrt(count / longer));
+    }
+  }
+
+  return best === -Infinity ? 0 : best;
+}
+
+/**
+ * Letter for the nth group of sections
+ */
+function groupLetter(index: number): string {
+  return index < 26 ? String.fromCharCode(65 + index) : `S${index + 1}`;
+}
+
+/**
+ * Find the sections of a recording and which of them repeat. Energy-weighted
+ * chroma is averaged per beat (or per fixed frame), mean-centred and stacked
+ * over a short window; section boundaries are peaks of its structure-feature
+ * novelty, and each section takes the label of the most similar earlier
+ * group, as a variation (A') when the match is loose, or starts a new group.
+ */
+export function detectStructure(data: Float32Array, sampleRate: number, options: StructureOptions = {}): StructureAnalysis {
+  const frameDuration = options.frameDuration ?? 0.5;
+  const embeddingDuration = options.embeddingDuration ?? 2;
+  const smoothingDuration = options.smoothingDuration ?? 4;
+  const neighbours = options.neighbours ?? 0.05;
+  const minSectionDuration = options.minSectionDuration ?? 6;
+  const noveltyThreshold = options.noveltyThreshold ?? 0.35;
+  const repeatThreshold = options.repeatThreshold ?? 0.5;
+  const variationThreshold = options.variationThreshold ?? 0.85;
+  const duration = data.length / sampleRate;
+  if (duration === 0) return { sections: [], boundaries: [] };
+
+  // Feature frame edges: the beat grid when given, fixed frames otherwise
+  const beats = (options.beats ?? []).filter(time => time > 0 && time < duration);
+  let edges = beats.length >= 2
+    ? [0, ...beats, duration]
+    : [...Array.from({ length: Math.ceil(duration / frameDuration - 1e-9) }, (_, i) => i * frameDuration), duration];
+  while (edges.length - 1 > MAX_FEATURE_FRAMES) {
+    edges = edges.filter((_, i) => i % 2 === 0 || i === edges.length - 1);
+  }
+  const frameCount = edges.length - 1;
+
+  // Energy-weighted mean chroma per feature frame
+  const frameSizeMs = options.frameSizeMs ?? 92.9;
+  const chromagram = computeChromagram(data, sampleRate, { hopSizeMs: frameSizeMs / 2, ...options, frameSizeMs });
+  const frameSize = msToSamples(frameSizeMs, sampleRate);
+  const features = Array.from({ length: frameCount }, () => new Array(12).fill(0));
+  let frame = 0;
+  chromagram.frames.forEach((chroma, i) => {
+    const centre = chromagram.frameTimes[i] + frameSize / 2 / sampleRate;
+    while (frame < frameCount - 1 && centre >= edges[frame + 1]) frame++;
+    chroma.forEach((value, pc) => { features[frame][pc] += value * chromagram.energies[i]; });
+  });
+
+  // Mean-centre each pitch class so similarity reflects changes in harmony rather than overall colour
+  const normalized = features.map(feature => {
+    const peak = Math.max(...feature);
+    return feature.map(value => (peak > 0 ? value / peak : 0));
+  });
+  const mean = Array.from({ length: 12 }, (_, pc) => normalized.reduce((sum, f) => sum + f[pc], 0) / frameCount);
+  const centred = normalized.map(feature => feature.map((value, pc) => value - mean[pc]));
+
+  // Stack neighbouring frames so each describes a short sequence rather than a moment
+  const frameSpacing = duration / frameCount;
+  const embedding = Math.max(1, Math.round(embeddingDuration / frameSpacing));
+  const embedded = centred.map((_, i) => {
+    const stacked: number[] = [];
+    for (let d = 0; d < embedding; d++) {
+      stacked.push(...centred[Math.min(frameCount - 1, Math.max(0, i + d - (embedding >> 1)))]);
+    }
+    return stacked;
+  });
+  const matrix = selfSimilarityMatrix(embedded);
+
+  // Boundaries at the strongest novelty peaks, at least minSectionDuration apart
+  const minFrames = Math.max(1, Math.round(minSectionDuration / frameSpacing));
+  const novelty = structureNovelty(matrix, neighbours * frameCount, smoothingDuration / 2 / frameSpacing);
+  const maxNovelty = Math.max(...novelty, 1e-12);
+  const starts = [0];
+  novelty
+    .map((value, frame) => ({ value: value / maxNovelty, frame }))
+    .filter(({ value, frame }) => value >= noveltyThreshold && frame >= minFrames && frameCount - frame >= minFrames)
+    .sort((a, b) => b.value - a.value)
+    .forEach(({ frame }) => {
+      if (starts.every(start => Math.abs(start - frame) >= minFrames)) starts.push(frame);
+    });
+  starts.sort((a, b) => a - b);
+  const ranges = starts.map((start, i): [number, number] => [start, starts[i + 1] ?? frameCount]);
+
+  // Label each section after the earlier group it best repeats
+  const groups: { first: number; members: { range: number; label: string }[] }[] = [];
+  const sections: StructureSection[] = ranges.map((range, index) => {
+    let bestGroup = -1;
+    let bestSimilarity = -Infinity;
+    groups.forEach((group, g) => {
+      const similarity = segmentSimilarity(matrix, ranges[group.first], range);
+      if (similarity > bestSimilarity) {
+        bestSimilarity = similarity;
+        bestGroup = g;
+      }
+    });
+
+    let label: string;
+    let group: string;
+    let similarity = 1;
+    if (bestGroup >= 0 && bestSimilarity >= repeatThreshold) {
+      const members = groups[bestGroup].members;
+      const same = members.find(member => segmentSimilarity(matrix, ranges[member.range], range) >= variationThreshold);
+      group = groupLetter(bestGroup);
+      label = same?.label ?? `${group}${"'".repeat(new Set(members.map(member => member.label)).size)}`;
+      similarity = bestSimilarity;
+      members.push({ range: index, label });
+    } else {
+      group = groupLetter(groups.length);
+      label = group;
+      groups.push({ first: index, members: [{ range: index, label }] });
+    }
+
+    return { start: edges[range[0]], end: edges[range[1]], label, group, similarity };
+  });
+
+  return { sections, boundaries: sections.slice(1).map(section => section.start) };
+}
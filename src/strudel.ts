@@ -2,74 +2,828 @@
  * Strudel code generation
  */
 
-import { Note, Chord } from "./types";
-import { formatNoteForStrudel } from "./pitch";
+import {
+  Note,
+  Chord,
+  DrumClass,
+  DrumHit,
+  TempoMap,
+  ScaleName,
+  StrudelPreset,
+  StrudelLayer,
+  StrudelLayout,
+  StrudelLayerOptions,
+  StrudelDynamics,
+  StructureSection,
+} from "./types";
+import { formatNoteForStrudel, noteToFrequency, noteToMidi, transposeNote } from "./pitch";
+import { beatToTime, prependBeats, timeToBeat } from "./beats";
+import { parseChordName } from "./chords";
+import { midiToScaleDegree, formatStrudelScale } from "./scales";
 
 export interface StrudelCode {
   melody: string;
   chords: string;
+  bass?: string;
+  drums?: string;
   combined: string;
 }
 
+export interface StrudelOptions {
+  beatGrid?: number[];
+  tempoMap?: TempoMap;
+  stepsPerBeat?: number;
+  preset?: StrudelPreset;
+  layers?: Partial<Record<StrudelLayer, StrudelLayerOptions>>;
+  // Key used for n() scale degrees, e.g. "Am", and optionally its mode
+  key?: string;
+  scale?: ScaleName;
+  scaleDegrees?: boolean;
+  compress?: boolean;
+  layout?: StrudelLayout;
+  // Defaults to "velocity"; only written for layers whose velocities vary
+  dynamics?: StrudelDynamics;
+  // Split material longer than this many bars into sections played with arrange()
+  sectionBars?: number;
+  // Song sections (e.g. from detectStructure), written as one named pattern per label
+  structure?: StructureSection[];
+  // Bass notes and drum hits rendered as layers of their own
+  bass?: Note[];
+  drums?: DrumHit[];
+}
+
+const DEFAULT_SOUND = "piano";
+
+const DEFAULT_BASS_SOUND = "gm_acoustic_bass";
+
+const DRUM_SOUNDS: Record<DrumClass, string> = {
+  kick: "bd",
+  snare: "sd",
+  hihat: "hh",
+  other: "perc",
+};
+
+// Hits closer together than this are played as one stacked step
+const DRUM_CHORD_WINDOW = 0.03;
+
+// Layers whose note velocities span less than this are written without dynamics
+const DYNAMICS_TOLERANCE = 0.1;
+
+// Written velocities are rounded to steps of this size
+const DYNAMICS_STEP = 0.05;
+
+export const STRUDEL_PRESETS: Record<StrudelPreset, StrudelOptions> = {
+  default: {},
+  lofi: {
+    compress: true,
+    layers: {
+      melody: { sound: "gm_epiano1", gain: 0.7, effects: { lpf: 1800, room: 0.6, delay: 0.25 } },
+      chords: { sound: "gm_epiano1", gain: 0.5, octave: -1, effects: { lpf: 1200, room: 0.8 } },
+      bass: { gain: 0.8, effects: { lpf: 800 } },
+      drums: { bank: "RolandTR808", gain: 0.8, effects: { lpf: 3000 } },
+    },
+  },
+  minimal: {
+    compress: true,
+    layers: {
+      melody: { sound: "triangle" },
+      chords: { sound: "sine", gain: 0.6 },
+      bass: { sound: "sawtooth", effects: { lpf: 400 } },
+    },
+  },
+  "live-coding": {
+    compress: true,
+    scaleDegrees: true,
+    layout: "labeled",
+  },
+};
+
+/**
+ * Merge a preset with explicit options, which take precedence layer by layer
+ */
+function resolveOptions(options: StrudelOptions): StrudelOptions {
+  const preset = STRUDEL_PRESETS[options.preset ?? "default"];
+  const layers: Partial<Record<StrudelLayer, StrudelLayerOptions>> = {};
+  for (const layer of ["melody", "chords", "bass", "drums"] as StrudelLayer[]) {
+    const base = { ...(layer === "bass" ? { sound: DEFAULT_BASS_SOUND } : {}), ...preset.layers?.[layer] };
+    const override = options.layers?.[layer] ?? {};
+    layers[layer] = { ...base, ...override, effects: { ...base.effects, ...override.effects } };
+  }
+  return { ...preset, ...options, layers };
+}
+
+/**
+ * Extend the beat grid backwards by whole bars until it reaches the earliest
+ * event, so events ahead of the first tracked beat keep their own steps
+ * instead of piling up on the first one
+ */
+function coverEvents(options: StrudelOptions, timeSignature: string, times: number[]): StrudelOptions {
+  const grid = options.beatGrid;
+  if (!grid || grid.length < 2 || times.length === 0) return options;
+  
+  const [beatsPerBar] = timeSignature.split("/").map(Number);
+  const interval = grid[1] - grid[0];
+  const earliest = times.reduce((min, time) => Math.min(min, time), Infinity);
+  // Within half a step of the first beat an event already rounds onto it
+  const lead = grid[0] - earliest - interval / (2 * (options.stepsPerBeat ?? 4));
+  if (lead <= 0 || interval <= 0) return options;
+  
+  const bars = Math.ceil(lead / (interval * beatsPerBar));
+  return { ...options, beatGrid: prependBeats(grid, bars * beatsPerBar) };
+}
+
+/**
+ * Split possibly overlapping notes into monophonic voices
+ */
+export function splitIntoVoices(notes: Note[]): Note[][] {
+  const voices: Note[][] = [];
+  const sorted = [...notes].sort((a, b) => a.time - b.time);
+  
+  for (const note of sorted) {
+    // Among voices that are free at this time, continue the closest in pitch
+    const pitch = noteToFrequency(note.note);
+    let voice: Note[] | undefined;
+    let bestDistance = Infinity;
+    for (const v of voices) {
+      const last = v[v.length - 1];
+      if (last.time + (last.duration || 0) > note.time + 1e-6) continue;
+      const distance = Math.abs(Math.log2((noteToFrequency(last.note) || 1) / (pitch || 1)));
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        voice = v;
+      }
+    }
+    if (voice) {
+      voice.push(note);
+    } else {
+      voices.push([note]);
+    }
+  }
+  
+  return voices;
+}
+
+export interface RhythmEvent {
+  token: string;
+  time: number;
+  duration: number;
+  // Token for the part after a barline, e.g. "~" for one-shots; without one the event is held across it
+  continuation?: string;
+}
+
+/**
+ * Options for rendering one section: only bars [start, end) are written
+ */
+type SectionOptions = StrudelOptions & { barRange?: [number, number] };
+
+/**
+ * Maps between seconds and beats, at a constant tempo or on a tracked beat grid
+ */
+interface BeatClock {
+  toBeat: (time: number) => number;
+  toTime: (beat: number) => number;
+  beatsPerBar: number;
+  cyclesPerMinute: number;
+}
+
+function createBeatClock(tempo: number, timeSignature: string, beatGrid?: number[]): BeatClock {
+  const [beatsPerBar, noteValue] = timeSignature.split("/").map(Number);
+  
+  // Tempo is in quarter notes per minute; beats are in units of the meter's denominator
+  const beatDuration = (60 / tempo) * (4 / noteValue);
+  
+  // Tracked beats are taken as the meter's beat unit
+  if (beatGrid && beatGrid.length >= 2) {
+    return {
+      toBeat: time => timeToBeat(time, beatGrid),
+      toTime: beat => beatToTime(beat, beatGrid),
+      beatsPerBar,
+      cyclesPerMinute: 60 / (beatDuration * beatsPerBar),
+    };
+  }
+  
+  return {
+    toBeat: time => time / beatDuration,
+    toTime: beat => beat * beatDuration,
+    beatsPerBar,
+    cyclesPerMinute: 60 / (beatDuration * beatsPerBar),
+  };
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
 /**
- * Generate Strudel code from melody and chords
+ * Render one bar of (token, steps) slots as its list of steps, reducing weights
+ * by their common divisor. With compression, runs of equal single-weight steps
+ * are written as "token!n".
+ */
+function renderBar(slots: { token: string; steps: number }[], compress: boolean): string[] {
+  const divisor = slots.reduce((gcd, slot) => greatestCommonDivisor(gcd, slot.steps), 0) || 1;
+  const steps: string[] = [];
+  
+  for (let i = 0; i < slots.length; i++) {
+    const weight = slots[i].steps / divisor;
+    let repeats = 1;
+    while (compress && weight === 1 && slots[i + repeats]?.token === slots[i].token
+      && slots[i + repeats].steps === slots[i].steps) {
+      repeats++;
+    }
+    const token = slots[i].token;
+    steps.push(weight !== 1 ? `${token}@${weight}` : repeats > 1 ? `${token}!${repeats}` : token);
+    i += repeats - 1;
+  }
+  
+  return steps;
+}
+
+function formatBar(steps: string[]): string {
+  return steps.length === 1 ? steps[0] : `[${steps.join(" ")}]`;
+}
+
+/**
+ * Shorten a list of bars: drop repeats of a looping period and write runs of
+ * identical bars as "bar!n", which still plays every bar of the run
+ */
+function compressBars(bars: string[][]): string {
+  const rendered = bars.map(formatBar);
+  
+  // The pattern loops, so only its shortest repeating period is needed
+  let period = rendered.length;
+  for (let p = 1; p < rendered.length; p++) {
+    if (rendered.length % p === 0 && rendered.every((bar, i) => bar === rendered[i % p])) {
+      period = p;
+      break;
+    }
+  }
+  
+  const runs: { bar: string[]; count: number }[] = [];
+  for (let i = 0; i < period; i++) {
+    const last = runs[runs.length - 1];
+    if (last && formatBar(last.bar) === rendered[i]) {
+      last.count++;
+    } else {
+      runs.push({ bar: bars[i], count: 1 });
+    }
+  }
+  
+  if (runs.length === 1) {
+    return runs[0].bar.join(" ");
+  }
+  
+  const elements = runs.map(run => run.count > 1 ? `${formatBar(run.bar)}!${run.count}` : formatBar(run.bar));
+  return `<${elements.join(" ")}>`;
+}
+
+/**
+ * Lay monophonic timed events onto a bar/step grid and render them as
+ * mini-notation: one bar per cycle (alternated with < >), "~" for silences and
+ * "@" weights for durations. Events with a continuation are split at
+ * barlines; when a held event crosses one, the bars are written as a single
+ * sequence slowed over them so it stays one note.
+ */
+export function renderRhythm(
+  events: RhythmEvent[],
+  tempo: number,
+  timeSignature: string,
+  options: StrudelOptions = {}
+): string {
+  const covered = coverEvents(options, timeSignature, events.map(event => event.time));
+  const { pattern, slow } = rhythmPattern(events, tempo, timeSignature, covered);
+  return slow > 1 ? `${pattern}/${slow}` : pattern;
+}
+
+/**
+ * Render events as mini-notation plus the factor the pattern should be slowed by
+ */
+function rhythmPattern(
+  events: RhythmEvent[],
+  tempo: number,
+  timeSignature: string,
+  options: SectionOptions
+): { pattern: string; slow: number } {
+  if (events.length === 0) return { pattern: "~", slow: 1 };
+  
+  const compress = options.compress ?? false;
+  const clock = createBeatClock(tempo, timeSignature, options.beatGrid);
+  const stepsPerBeat = options.stepsPerBeat ?? 4;
+  const stepsPerBar = clock.beatsPerBar * stepsPerBeat;
+  
+  // Quantize to steps; events landing on the same step share it as an equal
+  // subdivision, and a later event cuts off an earlier one that still sounds
+  const spans = events
+    .map(event => ({ event, ...stepSpan(clock, stepsPerBeat, event.time, event.duration) }))
+    .sort((a, b) => a.start - b.start || a.event.time - b.event.time);
+  const quantized: { token: string; continuation?: string; start: number; end: number }[] = [];
+  for (let i = 0; i < spans.length; ) {
+    let j = i;
+    while (j < spans.length && spans[j].start === spans[i].start) j++;
+    const group = spans.slice(i, j);
+    const last = group[group.length - 1].event;
+    quantized.push({
+      token: group.length === 1 ? last.token : `[${group.map(({ event }) => event.token).join(" ")}]`,
+      continuation: last.continuation,
+      start: spans[i].start,
+      end: Math.max(...group.map(span => span.end)),
+    });
+    i = j;
+  }
+  quantized.forEach((event, i) => {
+    if (i + 1 < quantized.length) event.end = Math.min(event.end, quantized[i + 1].start);
+  });
+  
+  // One-shots ringing past the final barline don't need a bar of their own
+  const last = quantized[quantized.length - 1];
+  const barCount = Math.ceil((last.continuation === "~" ? last.start + 1 : last.end) / stepsPerBar);
+  const [firstBar, endBar] = options.barRange ?? [0, barCount];
+  
+  // Slots from a start step to an end step; events begun earlier continue as their continuation
+  const fill = (from: number, to: number): { token: string; steps: number }[] => {
+    const slots: { token: string; steps: number }[] = [];
+    const addSlot = (token: string, steps: number) => {
+      const last = slots[slots.length - 1];
+      if (token === "~" && last?.token === "~") {
+        last.steps += steps;
+      } else {
+        slots.push({ token, steps });
+      }
+    };
+    let cursor = from;
+    
+    for (const event of quantized) {
+      if (event.end <= from || event.start >= to) continue;
+      const start = Math.max(event.start, from);
+      const end = Math.min(event.end, to);
+      if (start > cursor) addSlot("~", start - cursor);
+      addSlot(event.start < from ? event.continuation ?? event.token : event.token, end - start);
+      cursor = end;
+    }
+    if (cursor < to) addSlot("~", to - cursor);
+    return slots;
+  };
+  
+  // A held event crossing a barline inside the range ties the bars together
+  const tied = quantized.some(event => event.continuation === undefined && Array.from(
+    { length: endBar - firstBar - 1 },
+    (_, i) => (firstBar + i + 1) * stepsPerBar
+  ).some(barline => event.start < barline && event.end > barline));
+  if (tied) {
+    const steps = renderBar(fill(firstBar * stepsPerBar, endBar * stepsPerBar), compress);
+    return { pattern: formatBar(steps), slow: endBar - firstBar };
+  }
+  
+  const bars: string[][] = [];
+  for (let bar = firstBar; bar < endBar; bar++) {
+    bars.push(renderBar(fill(bar * stepsPerBar, (bar + 1) * stepsPerBar), compress));
+  }
+  
+  if (compress) return { pattern: compressBars(bars), slow: 1 };
+  
+  const rendered = bars.map(formatBar);
+  return { pattern: rendered.length === 1 ? rendered[0] : `<${rendered.join(" ")}>`, slow: 1 };
+}
+
+/**
+ * Start and end of an event in grid steps (at least one step long)
+ */
+function stepSpan(clock: BeatClock, stepsPerBeat: number, time: number, duration: number): { start: number; end: number } {
+  const start = Math.max(0, Math.round(clock.toBeat(time) * stepsPerBeat));
+  const end = Math.round(clock.toBeat(time + duration) * stepsPerBeat);
+  return { start, end: Math.max(start + 1, end) };
+}
+
+/**
+ * Cycles per minute for a tempo and meter (one bar per cycle)
+ */
+export function getCyclesPerMinute(tempo: number, timeSignature: string, options: StrudelOptions = {}): number {
+  return Math.round(createBeatClock(tempo, timeSignature, options.beatGrid).cyclesPerMinute * 100) / 100;
+}
+
+/**
+ * Writes pitches either as note names or as scale degrees for n() + scale()
+ */
+interface PitchFormat {
+  func: "note" | "n";
+  format: (note: string) => string;
+  scale?: string;
+}
+
+const NOTE_FORMAT: PitchFormat = { func: "note", format: formatNoteForStrudel };
+
+/**
+ * Use scale degrees relative to the key when every note lies in its scale,
+ * anchoring degree 0 at the key's tonic nearest the lowest note
+ */
+function createPitchFormat(notes: string[], options: StrudelOptions): PitchFormat {
+  const key = options.scaleDegrees && options.key ? parseChordName(options.key) : null;
+  const midis = notes.map(noteToMidi);
+  if (!key || midis.length === 0 || midis.some(midi => midi < 0)) return NOTE_FORMAT;
+  
+  const scale: ScaleName = options.scale ?? (key.quality === "min" ? "minor" : "major");
+  const lowest = Math.min(...midis);
+  const below = (((lowest - key.root) % 12) + 12) % 12;
+  const rootMidi = below > 6 ? lowest - below + 12 : lowest - below;
+  if (midis.some(midi => midiToScaleDegree(midi, rootMidi, scale) === null)) return NOTE_FORMAT;
+  
+  return {
+    func: "n",
+    format: note => String(midiToScaleDegree(noteToMidi(note), rootMidi, scale)),
+    scale: formatStrudelScale(rootMidi, scale),
+  };
+}
+
+function noteEvents(notes: Note[], pitch: PitchFormat): RhythmEvent[] {
+  return notes.map(note => ({
+    token: pitch.format(note.note),
+    time: note.time,
+    duration: note.duration || 0,
+  }));
+}
+
+function chordEvents(chords: Chord[], pitch: PitchFormat): RhythmEvent[] {
+  return chords.map(chord => ({
+    token: `[${chord.notes.map(n => pitch.format(n)).join(",")}]`,
+    time: chord.time,
+    duration: chord.duration || 0,
+  }));
+}
+
+function shiftOctave(note: string, octave: number): string {
+  return octave ? transposeNote(note, octave * 12) : note;
+}
+
+/**
+ * Velocity of each note, rounded to DYNAMICS_STEP, as a pattern on the same
+ * grid as the notes, or null when the dynamics are disabled or the notes'
+ * levels span less than DYNAMICS_TOLERANCE. In gain mode the layer's gain is
+ * folded into the values.
+ */
+function dynamicsPattern(
+  notes: Note[],
+  tempo: number,
+  timeSignature: string,
+  options: SectionOptions,
+  layer: StrudelLayerOptions
+): { control: "velocity" | "gain"; pattern: string } | null {
+  const control = options.dynamics ?? "velocity";
+  if (control === "none" || notes.every(note => note.velocity === undefined)) return null;
+  
+  const scale = control === "gain" ? layer.gain ?? 1 : 1;
+  const levels = notes.map(note => (note.velocity ?? 1) * scale);
+  if (Math.max(...levels) - Math.min(...levels) < DYNAMICS_TOLERANCE) return null;
+  const values = levels.map(level => String(Math.round(Math.round(level / DYNAMICS_STEP) * DYNAMICS_STEP * 100) / 100));
+  
+  const events = notes.map((note, i) => ({ token: values[i], time: note.time, duration: note.duration || 0 }));
+  return { control, pattern: renderRhythm(events, tempo, timeSignature, options) };
+}
+
+/**
+ * Render a layer's pattern with its scale, dynamics, sound, gain and effects
+ * chain. Without a pitch format the pattern itself names the sounds (drum layers).
+ */
+function formatLayer(
+  { pattern, slow }: { pattern: string; slow: number },
+  pitch: PitchFormat | null,
+  layer: StrudelLayerOptions,
+  dynamics: { control: "velocity" | "gain"; pattern: string } | null = null
+): string {
+  const chain = [pitch ? `${pitch.func}("${pattern}")` : `sound("${pattern}")`];
+  if (slow > 1) chain.push(`slow(${slow})`);
+  if (pitch?.scale) chain.push(`scale("${pitch.scale}")`);
+  if (dynamics) chain.push(`${dynamics.control}("${dynamics.pattern}")`);
+  if (pitch) chain.push(`sound("${layer.sound ?? DEFAULT_SOUND}")`);
+  if (layer.bank) chain.push(`bank("${layer.bank}")`);
+  if (layer.gain !== undefined && dynamics?.control !== "gain") chain.push(`gain(${layer.gain})`);
+  const effects = layer.effects ?? {};
+  if (effects.room !== undefined) chain.push(`room(${effects.room})`);
+  if (effects.lpf !== undefined) chain.push(`lpf(${effects.lpf})`);
+  if (effects.delay !== undefined) chain.push(`delay(${effects.delay})`);
+  return chain.join(".");
+}
+
+/**
+ * Render notes as a single pattern, stacking voices when notes overlap; each
+ * voice carries its own dynamics pattern
+ */
+function renderVoices(
+  notes: Note[],
+  layerName: StrudelLayer,
+  tempo: number,
+  timeSignature: string,
+  options: SectionOptions
+): string {
+  const layer = options.layers?.[layerName] ?? {};
+  const shifted = notes.map(note => ({ ...note, note: shiftOctave(note.note, layer.octave ?? 0) }));
+  if (shifted.length === 0) return formatLayer({ pattern: "~", slow: 1 }, NOTE_FORMAT, layer);
+  
+  const pitch = createPitchFormat(shifted.map(note => note.note), options);
+  const voices = splitIntoVoices(shifted).map(voice => formatLayer(
+    rhythmPattern(noteEvents(voice, pitch), tempo, timeSignature, options),
+    pitch,
+    layer,
+    dynamicsPattern(voice, tempo, timeSignature, options, layer)
+  ));
+  return voices.length === 1 ? voices[0] : `stack(${voices.join(", ")})`;
+}
+
+/**
+ * Render chords as a pattern of stacked notes
+ */
+function renderChords(chords: Chord[], tempo: number, timeSignature: string, options: SectionOptions): string {
+  const layer = options.layers?.chords ?? {};
+  const shifted = chords.map(chord => ({ ...chord, notes: chord.notes.map(n => shiftOctave(n, layer.octave ?? 0)) }));
+  if (shifted.length === 0) return formatLayer({ pattern: "~", slow: 1 }, NOTE_FORMAT, layer);
+  
+  const pitch = createPitchFormat(shifted.flatMap(chord => chord.notes), options);
+  return formatLayer(rhythmPattern(chordEvents(shifted, pitch), tempo, timeSignature, options), pitch, layer);
+}
+
+/**
+ * Render drum hits as a sound() pattern; each hit lasts until the next one (at
+ * most a beat) so the pattern reads "bd sd bd sd" rather than padding with rests
+ */
+function renderDrums(hits: DrumHit[], tempo: number, timeSignature: string, options: SectionOptions): string {
+  const layer = options.layers?.drums ?? {};
+  const sorted = [...hits].sort((a, b) => a.time - b.time);
+  const groups: DrumHit[][] = [];
+  for (const hit of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && hit.time - group[0].time < DRUM_CHORD_WINDOW) {
+      group.push(hit);
+    } else {
+      groups.push([hit]);
+    }
+  }
+  
+  const order = Object.keys(DRUM_SOUNDS) as DrumClass[];
+  const clock = createBeatClock(tempo, timeSignature, options.beatGrid);
+  const events = groups.map((group, i): RhythmEvent => {
+    const sounds = order.filter(drum => group.some(hit => hit.drum === drum)).map(drum => DRUM_SOUNDS[drum]);
+    const time = group[0].time;
+    const next = groups[i + 1]?.[0].time ?? Infinity;
+    return {
+      token: sounds.length === 1 ? sounds[0] : `[${sounds.join(",")}]`,
+      time,
+      duration: Math.min(next, clock.toTime(clock.toBeat(time) + 1)) - time,
+      continuation: "~",
+    };
+  });
+  
+  return formatLayer(rhythmPattern(events, tempo, timeSignature, options), null, layer);
+}
+
+/**
+ * Describe tempo changes as comment lines, or nothing for a steady tempo
+ */
+function formatTempoChanges(tempoMap: TempoMap): string {
+  const changes = tempoMap
+    .map(entry => ({ time: entry.time, bpm: Math.round(entry.bpm) }))
+    .filter((entry, i, all) => i === 0 || entry.bpm !== all[i - 1].bpm);
+  if (changes.length < 2) return "";
+  
+  return `// Tempo changes: ${changes.map(c => `${c.time.toFixed(1)}s ${c.bpm} BPM`).join(", ")}\n`;
+}
+
+/**
+ * Layers of the output: melody and chords always, bass and drums when given
+ */
+interface LayerItems {
+  label: string;
+  items: { time: number; duration?: number }[];
+  render: (options: SectionOptions) => string;
+}
+
+/**
+ * Indent every line of a block of code by two spaces
+ */
+function indent(code: string): string {
+  return code.split("\n").map(line => `  ${line}`).join("\n");
+}
+
+/**
+ * Step spans of each layer's items and the number of bars they cover
+ */
+function layerSpans(
+  layers: LayerItems[],
+  tempo: number,
+  timeSignature: string,
+  options: StrudelOptions
+): { spans: { start: number; end: number }[][]; stepsPerBar: number; totalBars: number; clock: BeatClock } {
+  const clock = createBeatClock(tempo, timeSignature, options.beatGrid);
+  const stepsPerBeat = options.stepsPerBeat ?? 4;
+  const stepsPerBar = clock.beatsPerBar * stepsPerBeat;
+  const spans = layers.map(layer =>
+    layer.items.map(item => stepSpan(clock, stepsPerBeat, item.time, item.duration || 0)));
+  const totalBars = Math.ceil(Math.max(0, ...spans.flat().map(span => span.end)) / stepsPerBar);
+  return { spans, stepsPerBar, totalBars, clock };
+}
+
+/**
+ * Bar ranges of song sections snapped to the bar grid, dropping sections
+ * that snap to nothing
+ */
+function structureBarRanges(
+  structure: StructureSection[],
+  clock: BeatClock,
+  totalBars: number
+): { label: string; bars: [number, number] }[] {
+  const starts = structure.map((section, i) =>
+    i === 0 ? 0 : Math.min(totalBars, Math.max(0, Math.round(clock.toBeat(section.start) / clock.beatsPerBar))));
+  return structure
+    .map((section, i): { label: string; bars: [number, number] } =>
+      ({ label: section.label, bars: [starts[i], i + 1 < starts.length ? starts[i + 1] : totalBars] }))
+    .filter(({ bars }) => bars[1] > bars[0]);
+}
+
+/**
+ * Render one layer over a range of bars, or null when it doesn't play there
+ */
+function renderSection(
+  layer: LayerItems,
+  spans: { start: number; end: number }[],
+  stepsPerBar: number,
+  options: StrudelOptions,
+  [start, end]: [number, number]
+): string | null {
+  const plays = spans.some(span => span.start < end * stepsPerBar && span.end > start * stepsPerBar);
+  return plays ? layer.render({ ...options, barRange: [start, end] }) : null;
+}
+
+/**
+ * Render each layer as arrange() over ranges of bars, with silence for
+ * sections where the layer doesn't play
+ */
+function renderSections(
+  layers: LayerItems[],
+  spans: { start: number; end: number }[][],
+  stepsPerBar: number,
+  options: StrudelOptions,
+  ranges: [number, number][]
+): { label: string; code: string }[] {
+  return layers.map((layer, i) => {
+    const sections = ranges.map(range =>
+      `  [${range[1] - range[0]}, ${renderSection(layer, spans[i], stepsPerBar, options, range) ?? "silence"}]`);
+    return { label: layer.label, code: `arrange(\n${sections.join(",\n")}\n)` };
+  });
+}
+
+/**
+ * Variable name of a section pattern: "A" becomes sectionA, "A'" sectionA1
+ */
+function sectionName(label: string): string {
+  const primes = label.length - label.replace(/'/g, "").length;
+  return `section${label.replace(/'/g, "")}${primes > 0 ? primes : ""}`;
+}
+
+/**
+ * Render one named pattern stacking the layers per distinct section, and the
+ * arrange() sequence playing them. Every occurrence is rendered over its own
+ * bars; one whose code differs from every earlier pattern of its group is
+ * written as a further variation (A'' after A') rather than replaying the
+ * first, so only identical repeats share a pattern.
+ */
+function renderStructure(
+  layers: LayerItems[],
+  spans: { start: number; end: number }[][],
+  stepsPerBar: number,
+  options: StrudelOptions,
+  sections: { label: string; bars: [number, number] }[]
+): { definitions: string[]; sequence: string; labels: string[] } {
+  const group = (label: string) => label.replace(/'/g, "");
+  const primes = (label: string) => label.length - group(label).length;
+  const patterns: { label: string; pattern: string }[] = [];
+  const definitions: string[] = [];
+
+  const labels = sections.map(({ label, bars }) => {
+    const parts = layers
+      .map((layer, i) => renderSection(layer, spans[i], stepsPerBar, options, bars))
+      .filter((code): code is string => code !== null);
+    const pattern = parts.length > 0 ? `stack(\n${parts.map(indent).join(",\n")}\n)` : "silence";
+    const same = patterns.find(other => group(other.label) === group(label) && other.pattern === pattern);
+    if (same) return same.label;
+
+    // Primes past any the detected labels of this group use, so a variation never takes a later section's name
+    const taken = [...sections, ...patterns].filter(other => group(other.label) === group(label));
+    const name = patterns.some(other => other.label === label)
+      ? `${group(label)}${"'".repeat(Math.max(...taken.map(other => primes(other.label))) + 1)}`
+      : label;
+    patterns.push({ label: name, pattern });
+    definitions.push(`// ${name} (bars ${bars[0] + 1}-${bars[1]})\nconst ${sectionName(name)} = ${pattern}`);
+    return name;
+  });
+  const entries = sections.map(({ bars }, i) => `  [${bars[1] - bars[0]}, ${sectionName(labels[i])}]`);
+  return {
+    definitions,
+    sequence: `arrange(\n${entries.join(",\n")}\n)`,
+    labels,
+  };
+}
+
+/**
+ * Generate Strudel code from melody and chords, plus bass and drum layers
+ * when bass notes or drum hits are given. When a beat grid (tracked or built from a tempo map) is
+ * given, durations are measured against it and normalized to the fixed output
+ * tempo. A preset supplies defaults for sounds, effects, compression and
+ * layout; explicit options override it. Given song sections, snapped to
+ * whole bars, each distinct section becomes a named pattern played in order
+ * with arrange(), repeats whose notes differ becoming variations; otherwise
+ * material longer than sectionBars bars is split into sections.
  */
+export function generateStrudelCode(
+  melody: Note[],
+  chords: Chord[],
+  tempo: number,
+  timeSignature: string,
+  options?: StrudelOptions
+): StrudelCode;
+/**
+ * @deprecated Pass the beat grid as options.beatGrid or the key as options.key
+ */
+export function generateStrudelCode(
+  melody: Note[],
+  chords: Chord[],
+  tempo: number,
+  timeSignature: string,
+  beatGridOrKey: number[] | string
+): StrudelCode;
 export function generateStrudelCode(
   melody: Note[], 
   chords: Chord[], 
   tempo: number, 
-  timeSignature: string
+  timeSignature: string,
+  options: StrudelOptions | number[] | string = {}
 ): StrudelCode {
-  const [beatsPerBar, noteValue] = timeSignature.split("/").map(Number);
-  const beatDuration = (60 / tempo) * (4 / noteValue);
+  // Earlier releases took a beat grid as the fifth argument; a bare string is the key
+  const requested = resolveOptions(
+    Array.isArray(options) ? { beatGrid: options } : typeof options === "string" ? { key: options } : options
+  );
+  const bass = requested.bass ?? [];
+  const drums = requested.drums ?? [];
+  const resolved = coverEvents(requested, timeSignature, [...melody, ...chords, ...bass, ...drums].map(item => item.time));
   
-  // Generate melody with duration notation
-  const melodyWithDuration = melody.map(note => {
-    const formatted = formatNoteForStrudel(note.note);
-    if (!note.duration) return formatted;
-    
-    const durationBeats = note.duration / beatDuration;
-    if (Math.abs(durationBeats - 0.5) < 0.1) return `${formatted}*0.5`;
-    if (Math.abs(durationBeats - 1) < 0.1) return formatted;
-    if (Math.abs(durationBeats - 2) < 0.1) return `${formatted}*2`;
-    if (Math.abs(durationBeats - 4) < 0.1) return `${formatted}*4`;
-    
-    return formatted;
-  }).join(" ");
-  
-  const melodyStrudel = melody.length > 0 
-    ? `note("${melodyWithDuration}").sound("piano")`
-    : `note("~").sound("piano")`;
-  
-  // Generate chords with timing
-  const chordWithDuration = chords.map(chord => {
-    const chordNotes = chord.notes.map(n => formatNoteForStrudel(n)).join(",");
-    const formatted = `[${chordNotes}]`;
-    if (!chord.duration) return formatted;
-    
-    const durationBeats = chord.duration / beatDuration;
-    if (Math.abs(durationBeats - 0.5) < 0.1) return `${formatted}*0.5`;
-    if (Math.abs(durationBeats - 1) < 0.1) return formatted;
-    if (Math.abs(durationBeats - 2) < 0.1) return `${formatted}*2`;
-    if (Math.abs(durationBeats - 4) < 0.1) return `${formatted}*4`;
-    
-    return formatted;
-  }).join(" ");
+  // Melody and bass stack overlapping voices; everything sits on the bar grid
+  const layerItems: LayerItems[] = [
+    { label: "Melody", items: melody, render: opts => renderVoices(melody, "melody", tempo, timeSignature, opts) },
+    { label: "Chords", items: chords, render: opts => renderChords(chords, tempo, timeSignature, opts) },
+    ...(bass.length > 0
+      ? [{ label: "Bass", items: bass, render: (opts: SectionOptions) => renderVoices(bass, "bass", tempo, timeSignature, opts) }]
+      : []),
+    ...(drums.length > 0
+      ? [{ label: "Drums", items: drums, render: (opts: SectionOptions) => renderDrums(drums, tempo, timeSignature, opts) }]
+      : []),
+  ];
+  
+  // Song sections take precedence over fixed-length sections
+  const { spans, stepsPerBar, totalBars, clock } = layerSpans(layerItems, tempo, timeSignature, resolved);
+  const sections = resolved.structure ? structureBarRanges(resolved.structure, clock, totalBars) : [];
+  const ranges: [number, number][] = sections.length > 1
+    ? sections.map(section => section.bars)
+    : resolved.sectionBars && totalBars > resolved.sectionBars
+      ? Array.from({ length: Math.ceil(totalBars / resolved.sectionBars) }, (_, i) =>
+          [i * resolved.sectionBars!, Math.min(totalBars, (i + 1) * resolved.sectionBars!)])
+      : [];
+  const layers = ranges.length > 0
+    ? renderSections(layerItems, spans, stepsPerBar, resolved, ranges)
+    : layerItems.map(layer => ({ label: layer.label, code: layer.render(resolved) }));
+  const song = sections.length > 1 ? renderStructure(layerItems, spans, stepsPerBar, resolved, sections) : null;
+  const codeOf = (label: string) => layers.find(layer => layer.label === label)?.code;
+  const melodyStrudel = codeOf("Melody")!;
+  const chordStrudel = codeOf("Chords")!;
+  const bassStrudel = codeOf("Bass");
+  const drumStrudel = codeOf("Drums");
   
-  const chordStrudel = chords.length > 0
-    ? `note("${chordWithDuration}").sound("piano")`
-    : `note("~").sound("piano")`;
+  const tempoChanges = resolved.tempoMap ? formatTempoChanges(resolved.tempoMap) : "";
+  const counts = `// Melody: ${melody.length} notes, Chords: ${chords.length} chords`
+    + (bassStrudel ? `, Bass: ${bass.length} notes` : "")
+    + (drumStrudel ? `, Drums: ${drums.length} hits` : "");
+  const header = `// Tempo: ${tempo} BPM, Time Signature: ${timeSignature}
+${tempoChanges}${counts}`;
+  const cpm = getCyclesPerMinute(tempo, timeSignature, resolved);
+  
+  // Song sections: the named patterns, then the sequence playing them
+  const songCode = song && `${header}
+// Sections: ${song.labels.join(" ")}
+
+${song.definitions.join("\n\n")}
+
+${resolved.layout === "labeled" ? `setcpm(${cpm})\n\n$: ${song.sequence}` : `${song.sequence}.cpm(${cpm})`}`;
   
-  const combined = `// Tempo: ${tempo} BPM, Time Signature: ${timeSignature}
-// Melody: ${melody.length} notes, Chords: ${chords.length} chords
+  // Labeled layout: one "$:" block per layer, which can be muted or edited independently
+  const combined = songCode ?? (resolved.layout === "labeled"
+    ? `${header}
+setcpm(${cpm})
+${layers.map(layer => `\n// ${layer.label}\n$: ${layer.code}`).join("\n")}`
+    : `${header}
 stack(
-  ${melodyStrudel},
-  ${chordStrudel}
-).cpm(${Math.round(tempo / 4)})`;
+${layers.map(layer => indent(layer.code)).join(",\n")}
+).cpm(${cpm})`);
 
   return {
     melody: melodyStrudel,
     chords: chordStrudel,
+    ...(bassStrudel ? { bass: bassStrudel } : {}),
+    ...(drumStrudel ? { drums: drumStrudel } : {}),
     combined
   };
 }
@@ -77,52 +831,54 @@ stack(
 /**
  * Generate melody-only Strudel code
  */
-export function generateMelodyCode(melody: Note[], tempo: number, timeSignature: string): string {
-  const [_, noteValue] = timeSignature.split("/").map(Number);
-  const beatDuration = (60 / tempo) * (4 / noteValue);
-  
-  const melodyWithDuration = melody.map(note => {
-    const formatted = formatNoteForStrudel(note.note);
-    if (!note.duration) return formatted;
-    
-    const durationBeats = note.duration / beatDuration;
-    if (Math.abs(durationBeats - 0.5) < 0.1) return `${formatted}*0.5`;
-    if (Math.abs(durationBeats - 1) < 0.1) return formatted;
-    if (Math.abs(durationBeats - 2) < 0.1) return `${formatted}*2`;
-    if (Math.abs(durationBeats - 4) < 0.1) return `${formatted}*4`;
-    
-    return formatted;
-  }).join(" ");
-  
-  return melody.length > 0 
-    ? `note("${melodyWithDuration}").sound("piano")`
-    : `note("~").sound("piano")`;
+export function generateMelodyCode(
+  melody: Note[],
+  tempo: number,
+  timeSignature: string,
+  options: StrudelOptions = {}
+): string {
+  const resolved = coverEvents(resolveOptions(options), timeSignature, melody.map(note => note.time));
+  return renderVoices(melody, "melody", tempo, timeSignature, resolved);
 }
 
 /**
  * Generate chord-only Strudel code
  */
-export function generateChordCode(chords: Chord[], tempo: number, timeSignature: string): string {
-  const [_, noteValue] = timeSignature.split("/").map(Number);
-  const beatDuration = (60 / tempo) * (4 / noteValue);
-  
-  const chordWithDuration = chords.map(chord => {
-    const chordNotes = chord.notes.map(n => formatNoteForStrudel(n)).join(",");
-    const formatted = `[${chordNotes}]`;
-    if (!chord.duration) return formatted;
-    
-    const durationBeats = chord.duration / beatDuration;
-    if (Math.abs(durationBeats - 0.5) < 0.1) return `${formatted}*0.5`;
-    if (Math.abs(durationBeats - 1) < 0.1) return formatted;
-    if (Math.abs(durationBeats - 2) < 0.1) return `${formatted}*2`;
-    if (Math.abs(durationBeats - 4) < 0.1) return `${formatted}*4`;
-    
-    return formatted;
-  }).join(" ");
-  
-  return chords.length > 0
-    ? `note("${chordWithDuration}").sound("piano")`
-    : `note("~").sound("piano")`;
+export function generateChordCode(
+  chords: Chord[],
+  tempo: number,
+  timeSignature: string,
+  options: StrudelOptions = {}
+): string {
+  const resolved = coverEvents(resolveOptions(options), timeSignature, chords.map(chord => chord.time));
+  return renderChords(chords, tempo, timeSignature, resolved);
+}
+
+/**
+ * Generate bass-only Strudel code
+ */
+export function generateBassCode(
+  bass: Note[],
+  tempo: number,
+  timeSignature: string,
+  options: StrudelOptions = {}
+): string {
+  const resolved = coverEvents(resolveOptions(options), timeSignature, bass.map(note => note.time));
+  return renderVoices(bass, "bass", tempo, timeSignature, resolved);
+}
+
+/**
+ * Generate drum-only Strudel code
+ */
+export function generateDrumCode(
+  hits: DrumHit[],
+  tempo: number,
+  timeSignature: string,
+  options: StrudelOptions = {}
+): string {
+  return hits.length > 0
+    ? renderDrums(hits, tempo, timeSignature, coverEvents(resolveOptions(options), timeSignature, hits.map(hit => hit.time)))
+    : `sound("~")`;
 }
 
 /**
@@ -2,7 +2,9 @@
  * Tempo detection using onset strength analysis
  */
 
-import { TempoDetectionOptions } from "./types";
+import { TempoDetectionOptions, TempoMap, TempoMapOptions } from "./types";
+import { computeOnsetEnvelope, estimateBeatPeriod } from "./beats";
+import { computeDetectionFunction } from "./onset";
 
 /**
  * Detect tempo from audio data using onset strength
@@ -11,27 +13,12 @@ export function detectTempo(data: Float32Array, sampleRate: number, options: Tem
   const minBpm = options.minBpm ?? 60;
   const maxBpm = options.maxBpm ?? 200;
   
-  const frameSize = 1024;
-  const hopSize = 512;
-  const energies: number[] = [];
-  
-  // Calculate energy envelope
-  for (let i = 0; i < data.length - frameSize; i += hopSize) {
-    let energy = 0;
-    for (let j = 0; j < frameSize; j++) {
-      energy += data[i + j] * data[i + j];
-    }
-    energies.push(Math.sqrt(energy / frameSize));
-  }
-  
   // Calculate onset strength
-  const onsetStrength: number[] = [];
-  for (let i = 1; i < energies.length; i++) {
-    const diff = energies[i] - energies[i - 1];
-    onsetStrength.push(Math.max(0, diff));
-  }
-  
-  const framesPerSecond = sampleRate / hopSize;
+  const { values: onsetStrength, frameRate: framesPerSecond } = computeDetectionFunction(data, sampleRate, {
+    method: options.onsetMethod ?? "energy",
+    frameSizeMs: options.frameSizeMs ?? 23.2,
+    hopSizeMs: options.hopSizeMs ?? 11.6,
+  });
   
   let bestBpm = 120;
   let bestScore = 0;
@@ -103,3 +90,73 @@ export function quantizeTempo(tempo: number): number {
   
   return closest;
 }
+
+/**
+ * Estimate a time-varying tempo map from a windowed tempogram. Each window's
+ * tempo is searched within ±30% of the global tempo to avoid octave jumps.
+ */
+export function detectTempoMap(data: Float32Array, sampleRate: number, options: TempoMapOptions = {}): TempoMap {
+  const minBpm = options.minBpm ?? 60;
+  const maxBpm = options.maxBpm ?? 200;
+  const windowDuration = options.windowDuration ?? 8;
+  const windowHop = options.windowHop ?? 2;
+
+  const { envelope, frameRate } = computeOnsetEnvelope(data, sampleRate, options.frameSizeMs, options.hopSizeMs);
+  if (envelope.length < 2) return [{ time: 0, bpm: 120 }];
+
+  const globalBpm = (60 * frameRate) / estimateBeatPeriod(envelope, frameRate, minBpm, maxBpm);
+  const windowFrames = Math.max(2, Math.round(windowDuration * frameRate));
+  const hopFrames = Math.max(1, Math.round(windowHop * frameRate));
+
+  const raw: TempoMap = [];
+  const lastStart = Math.max(0, envelope.length - windowFrames);
+  for (let start = 0; start <= lastStart; start += hopFrames) {
+    const window = envelope.slice(start, start + windowFrames);
+    const period = estimateBeatPeriod(
+      window,
+      frameRate,
+      Math.max(minBpm, globalBpm * 0.7),
+      Math.min(maxBpm, globalBpm * 1.3)
+    );
+    // Entries are stamped at the window centre
+    raw.push({
+      time: (start + Math.min(windowFrames, envelope.length) / 2) / frameRate,
+      bpm: (60 * frameRate) / period,
+    });
+  }
+
+  // Median-filter over three windows to suppress spurious jumps
+  return raw.map((entry, i) => {
+    const neighbours = raw.slice(Math.max(0, i - 1), i + 2).map(e => e.bpm).sort((a, b) => a - b);
+    return { time: entry.time, bpm: neighbours[Math.floor(neighbours.length / 2)] };
+  });
+}
+
+/**
+ * Tempo at a given time, linearly interpolated between tempo map entries
+ */
+export function getTempoAtTime(tempoMap: TempoMap, time: number): number {
+  if (tempoMap.length === 0) return 120;
+  if (time <= tempoMap[0].time) return tempoMap[0].bpm;
+
+  for (let i = 1; i < tempoMap.length; i++) {
+    if (time < tempoMap[i].time) {
+      const prev = tempoMap[i - 1];
+      const next = tempoMap[i];
+      const ratio = (time - prev.time) / (next.time - prev.time);
+      return prev.bpm + ratio * (next.bpm - prev.bpm);
+    }
+  }
+  return tempoMap[tempoMap.length - 1].bpm;
+}
+
+/**
+ * Build a warped beat grid (beat timestamps) by integrating a tempo map
+ */
+export function buildBeatGridFromTempoMap(tempoMap: TempoMap, duration: number, startTime: number = 0): number[] {
+  const beats: number[] = [];
+  for (let time = startTime; time <= duration; time += 60 / getTempoAtTime(tempoMap, time)) {
+    beats.push(time);
+  }
+  return beats;
+}
@@ -0,0 +1,126 @@
+/**
+ * Tuning (reference pitch) estimation from a histogram of pitch deviations
+ */
+
+import { TuningEstimate, TuningEstimationOptions } from "./types";
+import { frequencyToCents } from "./pitch";
+import { magnitudeSpectrogram } from "./spectrogram";
+import { nextPowerOfTwo } from "./fft";
+
+// Half-width of the circular smoothing kernel applied to the histogram, in cents
+const SMOOTHING_CENTS = 5;
+
+// Deviations within this distance of the estimate count towards its confidence
+const CONFIDENCE_CENTS = 10;
+
+// Frames per block of spectra when scanning a recording
+const SPECTRUM_BLOCK_FRAMES = 64;
+
+/**
+ * Estimate the tuning offset from a set of frequencies (optionally weighted).
+ * Each frequency's deviation from A4 = 440 Hz equal temperament goes into a
+ * circular histogram over one semitone, whose smoothed peak is the offset.
+ */
+export function estimateTuning(
+  frequencies: number[],
+  weights?: number[],
+  options: TuningEstimationOptions = {}
+): TuningEstimate {
+  const binCents = options.binCents ?? 1;
+  const numBins = Math.max(1, Math.round(100 / binCents));
+  const histogram = new Float64Array(numBins);
+  const wrap = (bin: number) => ((bin % numBins) + numBins) % numBins;
+
+  let total = 0;
+  frequencies.forEach((freq, i) => {
+    if (!(freq > 0)) return;
+    const weight = weights?.[i] ?? 1;
+    histogram[wrap(Math.round((frequencyToCents(freq) + 50) / binCents))] += weight;
+    total += weight;
+  });
+  if (total <= 0) return { referencePitch: 440, cents: 0, confidence: 0 };
+
+  // Smooth with a Hann kernel, wrapping around the semitone
+  const radius = Math.max(1, Math.round(SMOOTHING_CENTS / binCents));
+  const smoothed = new Float64Array(numBins);
+  for (let bin = 0; bin < numBins; bin++) {
+    for (let k = -radius; k <= radius; k++) {
+      smoothed[bin] += histogram[wrap(bin + k)] * (0.5 + 0.5 * Math.cos((Math.PI * k) / (radius + 1)));
+    }
+  }
+
+  // Parabolic interpolation around the peak bin
+  let peak = 0;
+  for (let bin = 1; bin < numBins; bin++) {
+    if (smoothed[bin] > smoothed[peak]) peak = bin;
+  }
+  const left = smoothed[wrap(peak - 1)];
+  const right = smoothed[wrap(peak + 1)];
+  const curvature = left - 2 * smoothed[peak] + right;
+  const shift = curvature < 0 ? (0.5 * (left - right)) / curvature : 0;
+
+  let cents = (peak + shift) * binCents - 50;
+  cents = ((cents + 50) % 100 + 100) % 100 - 50;
+
+  let near = 0;
+  for (let bin = 0; bin < numBins; bin++) {
+    const distance = Math.abs(((bin * binCents - 50 - cents + 150) % 100) - 50);
+    if (distance <= CONFIDENCE_CENTS) near += histogram[bin];
+  }
+
+  return {
+    referencePitch: 440 * Math.pow(2, cents / 1200),
+    cents,
+    confidence: near / total,
+  };
+}
+
+/**
+ * Estimate the reference pitch of a recording from its spectral peaks,
+ * weighted by magnitude
+ */
+export function estimateTuningFromAudio(
+  data: Float32Array,
+  sampleRate: number,
+  options: TuningEstimationOptions = {}
+): TuningEstimate {
+  const minFreq = options.minFreq ?? 80;
+  const maxFreq = options.maxFreq ?? 2000;
+  const peakThreshold = options.peakThreshold ?? 0.1;
+  const frameSize = options.frameSize ?? 8192;
+  const hopSize = options.hopSize ?? 4096;
+  const binHz = sampleRate / nextPowerOfTwo(frameSize);
+
+  // Spectra are computed a block of frames at a time to bound memory on long recordings
+  const frequencies: number[] = [];
+  const weights: number[] = [];
+  const blockLength = frameSize + (SPECTRUM_BLOCK_FRAMES - 1) * hopSize;
+  for (let start = 0; start === 0 || start + frameSize <= data.length; start += SPECTRUM_BLOCK_FRAMES * hopSize) {
+    const { values } = magnitudeSpectrogram(data.subarray(start, start + blockLength), sampleRate, { frameSize, hopSize });
+    for (const frame of values) {
+      let loudest = 0;
+      for (let k = 0; k < frame.length; k++) {
+        if (frame[k] > loudest) loudest = frame[k];
+      }
+
+      const first = Math.max(1, Math.ceil(minFreq / binHz));
+      const last = Math.min(frame.length - 2, Math.floor(maxFreq / binHz));
+      for (let k = first; k <= last; k++) {
+        const magnitude = frame[k];
+        if (magnitude < loudest * peakThreshold || magnitude <= frame[k - 1] || magnitude < frame[k + 1]) continue;
+
+        // Interpolate the peak position on log magnitudes
+        const a = Math.log(frame[k - 1] + 1e-12);
+        const b = Math.log(magnitude + 1e-12);
+        const c = Math.log(frame[k + 1] + 1e-12);
+        const denominator = a - 2 * b + c;
+        const offset = denominator < 0 ? (0.5 * (a - c)) / denominator : 0;
+
+        frequencies.push((k + offset) * binHz);
+        weights.push(magnitude);
+      }
+    }
+  }
+
+  return estimateTuning(frequencies, weights, options);
+}
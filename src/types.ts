@@ -6,6 +6,21 @@ export interface Note {
   note: string;
   time: number;
   duration?: number;
+  velocity?: number;
+  channel?: number;
+  // Mean deviation from the equal-tempered pitch at the reference tuning
+  cents?: number;
+  articulation?: Articulation;
+  contour?: PitchContourPoint[];
+}
+
+export type Articulation = "staccato" | "normal" | "legato";
+
+export interface PitchContourPoint {
+  // Seconds after the note starts
+  time: number;
+  // Deviation from the note's equal-tempered pitch
+  cents: number;
 }
 
 export interface Chord {
@@ -14,6 +29,7 @@ export interface Chord {
   time: number;
   duration?: number;
   degree?: string;
+  confidence?: number;
 }
 
 export interface AnalysisResult {
@@ -36,6 +52,38 @@ export interface AnalysisParams {
   autoDetectKey: boolean;
   targetKey: string;
   timeSignature: string;
+  pitchAlgorithm: PitchAlgorithm;
+  minPitchConfidence: number;
+  transcriptionMode: TranscriptionMode;
+  useBeatGrid: boolean;
+  variableTempo: boolean;
+  analysisSampleRate: number | null;
+  frameSizeMs: number;
+  hopSizeMs: number;
+  strudelPreset: StrudelPreset;
+  detectDrums: boolean;
+  separateBass: boolean;
+  splitNotesAtOnsets: boolean;
+  onsetMethod: OnsetDetectionFunction;
+  keyDetectionSource: KeyDetectionSource;
+  keyProfile: KeyProfileName;
+  detectMode: boolean;
+  // A4 in Hz; estimated from the recording when autoDetectTuning is set
+  referencePitch: number;
+  autoDetectTuning: boolean;
+  capturePitchContour: boolean;
+  // Run pitch, key and chord analysis on the harmonic part and rhythm analysis on the percussive part
+  separateSources: boolean;
+  // Optional limits on the analyzed length (seconds), which bounds the work, and on the melody and
+  // bass notes returned, which are kept after extraction; null for none
+  maxDuration: number | null;
+  maxNotes: number | null;
+  // Bars per Strudel section, splitting long material into arrange() sections; null renders one pattern per layer
+  strudelSectionBars: number | null;
+  // Find song sections and write the Strudel output as one pattern per section
+  detectStructure: boolean;
+  // Infer the time signature from accents over the beat grid instead of using timeSignature
+  autoDetectTimeSignature: boolean;
 }
 
 export const defaultAnalysisParams: AnalysisParams = {
@@ -49,20 +97,539 @@ export const defaultAnalysisParams: AnalysisParams = {
   autoDetectKey: true,
   targetKey: "C",
   timeSignature: "4/4",
+  pitchAlgorithm: "yin",
+  minPitchConfidence: 0.5,
+  transcriptionMode: "monophonic",
+  useBeatGrid: false,
+  variableTempo: false,
+  analysisSampleRate: null,
+  frameSizeMs: 92.9,
+  hopSizeMs: 46.4,
+  strudelPreset: "default",
+  detectDrums: false,
+  separateBass: false,
+  splitNotesAtOnsets: true,
+  onsetMethod: "spectralFlux",
+  keyDetectionSource: "chroma",
+  keyProfile: "krumhansl",
+  detectMode: false,
+  referencePitch: 440,
+  autoDetectTuning: false,
+  capturePitchContour: false,
+  separateSources: false,
+  maxDuration: null,
+  maxNotes: null,
+  strudelSectionBars: null,
+  detectStructure: false,
+  autoDetectTimeSignature: false,
 };
 
+export type KeyDetectionSource = "melody" | "chroma";
+
+export interface TruncationReport {
+  // Seconds of input beyond maxDuration that were not analyzed
+  droppedDuration: number;
+  // Melody and bass notes beyond maxNotes that were dropped
+  droppedNotes: number;
+}
+
+export type TranscriptionMode = "monophonic" | "polyphonic";
+
+export type PitchAlgorithm = "autocorrelation" | "yin" | "pyin";
+
 export interface PitchDetectionOptions {
   minFreq?: number;
   maxFreq?: number;
+  algorithm?: PitchAlgorithm;
+  threshold?: number;
+  voicingThreshold?: number;
+}
+
+export interface PitchEstimate {
+  frequency: number;
+  confidence: number;
+  voiced: boolean;
+}
+
+export type PitchEstimator = (
+  frame: Float32Array,
+  sampleRate: number,
+  options?: PitchDetectionOptions
+) => PitchEstimate;
+
+export interface PolyphonicOptions {
+  frameSizeMs?: number;
+  hopSizeMs?: number;
+  minMidi?: number;
+  maxMidi?: number;
+  maxPolyphony?: number;
+  harmonics?: number;
+  threshold?: number;
+  amplitudeThreshold?: number;
+  minNoteDuration?: number;
+  referencePitch?: number;
+}
+
+export interface ChromaOptions {
+  frameSizeMs?: number;
+  hopSizeMs?: number;
+  minFreq?: number;
+  maxFreq?: number;
+  referencePitch?: number;
+}
+
+export type ChordQuality = "maj" | "min" | "dim" | "aug" | "sus2" | "sus4" | "7" | "maj7" | "min7";
+
+export interface ChordRecognitionOptions extends ChromaOptions {
+  qualities?: ChordQuality[];
+  // Scale of the key; chords built from its tones get diatonicBias added to their similarity
+  scale?: ScaleName;
+  diatonicBias?: number;
+  selfTransitionProbability?: number;
+  noChordThreshold?: number;
 }
 
 export interface TempoDetectionOptions {
   minBpm?: number;
   maxBpm?: number;
+  frameSizeMs?: number;
+  hopSizeMs?: number;
+  onsetMethod?: OnsetDetectionFunction;
+}
+
+export interface TempoMapOptions extends TempoDetectionOptions {
+  windowDuration?: number;
+  windowHop?: number;
+}
+
+export interface TempoMapEntry {
+  time: number;
+  bpm: number;
+}
+
+export type TempoMap = TempoMapEntry[];
+
+export interface BeatTrackingOptions extends TempoDetectionOptions {
+  beatsPerBar?: number;
+  tightness?: number;
+}
+
+export interface BeatTrackingResult {
+  tempo: number;
+  beats: number[];
+  downbeats: number[];
+  confidence: number;
+  phase: number;
+}
+
+export interface MeterDetectionOptions extends BeatTrackingOptions {
+  // Beat times to analyze; tracked from the signal when omitted
+  beats?: number[];
+}
+
+export interface MeterCandidate {
+  timeSignature: string;
+  score: number;
+}
+
+export interface MeterDetectionResult {
+  timeSignature: string;
+  // Beats of the grid per bar, and whether each divides in two (simple) or three (compound)
+  beatsPerBar: number;
+  subdivision: 2 | 3;
+  // Winning candidate's share of the total score
+  confidence: number;
+  candidates: MeterCandidate[];
+  beats: number[];
+  downbeats: number[];
+}
+
+export type KeyProfileName = "krumhansl" | "temperley" | "aardenEssen" | "edma";
+
+export interface KeyDetectionOptions extends ScaleDetectionOptions {
+  profile?: KeyProfileName;
+  // Replace the major/minor result with the best matching scale or mode
+  detectMode?: boolean;
+}
+
+export interface ChromaKeyDetectionOptions extends KeyDetectionOptions, ChromaOptions {
+  // Length and spacing of the windows used to find modulations, in seconds
+  windowDuration?: number;
+  windowHop?: number;
+  // Correlation given up per key change when smoothing the window sequence
+  switchPenalty?: number;
+}
+
+export interface KeySegment {
+  key: string;
+  mode: ScaleName;
+  strudelScale: string;
+  start: number;
+  end: number;
+  confidence: number;
 }
 
 export interface KeyDetectionResult {
   key: string;
-  mode: "major" | "minor";
+  mode: ScaleName;
+  // Strudel scale name without an octave, e.g. "D:dorian"
+  strudelScale: string;
   confidence: number;
+  profile?: KeyProfileName;
+  // All 24 keys, best first; with detectMode, every scale on every tonic
+  candidates?: ScaleCandidate[];
+  segments?: KeySegment[];
+}
+
+export interface StreamingAnalyzerOptions {
+  frameSize?: number;
+  hopSize?: number;
+  pitchAlgorithm?: PitchAlgorithm;
+  minPitchConfidence?: number;
+  amplitudeThreshold?: number;
+  minNoteDuration?: number;
+  minBpm?: number;
+  maxBpm?: number;
+  tempoHistory?: number;
+  keyUpdateInterval?: number;
+  referencePitch?: number;
+}
+
+export interface StreamingEventMap {
+  noteon: { note: string; time: number; velocity: number };
+  noteoff: { note: string; time: number; duration: number };
+  beat: { time: number; tempo: number };
+  keychange: { key: string; previousKey: string | null; time: number; confidence: number };
+}
+
+export type StreamingEventType = keyof StreamingEventMap;
+
+export type StreamingEvent = {
+  [K in StreamingEventType]: { type: K } & StreamingEventMap[K];
+}[StreamingEventType];
+
+export interface ResampleOptions {
+  zeroCrossings?: number;
+  rolloff?: number;
+  kaiserBeta?: number;
+}
+
+export type ChannelMode = "mix" | "left" | "right" | "mid" | "side";
+
+export interface DecodeOptions {
+  channelMode?: ChannelMode;
+}
+
+export interface DecodedAudio {
+  data: Float32Array;
+  channels: Float32Array[];
+  sampleRate: number;
+  bitDepth: number;
+  format: "wav" | "aiff" | "aifc";
+  duration: number;
+}
+
+export interface MidiExportInput {
+  melody: Note[];
+  chords: Chord[];
+  tempo: number;
+  timeSignature: string;
+  key?: string;
+}
+
+export interface MidiExportOptions {
+  format?: 0 | 1;
+  ticksPerQuarter?: number;
+  melodyChannel?: number;
+  chordChannel?: number;
+  melodyProgram?: number;
+  chordProgram?: number;
+  defaultVelocity?: number;
+  // Write melody cents and pitch contours as pitch-bend events
+  pitchBend?: boolean;
+  // Bend range the receiving synth is set to, in semitones
+  pitchBendRange?: number;
+  // Tuning the notes' cents are relative to; its offset from A4 = 440 Hz is added to every bend
+  referencePitch?: number;
+}
+
+export interface MidiTrack {
+  name?: string;
+  notes: Note[];
+}
+
+export interface MidiImportResult {
+  notes: Note[];
+  tracks: MidiTrack[];
+  tempo: number;
+  tempoMap: TempoMap;
+  timeSignature: string;
+  key?: string;
+  duration: number;
+}
+
+export type MiniNode =
+  | { type: "atom"; value: string }
+  | { type: "rest" }
+  | { type: "sequence"; steps: { node: MiniNode; weight: number }[] }
+  | { type: "alternation"; children: MiniNode[] }
+  | { type: "stack"; children: MiniNode[] }
+  | { type: "fast"; node: MiniNode; factor: number };
+
+export interface MiniEvent {
+  value: string;
+  begin: number;
+  end: number;
+}
+
+export interface MiniEvaluationOptions {
+  cycles?: number;
+  cyclesPerMinute?: number;
+  // Strudel scale name ("C4:major"); numeric tokens are then scale degrees
+  scale?: string;
+}
+
+export interface ParsedStrudelCode {
+  layers: Note[][];
+  notes: Note[];
+  cyclesPerMinute: number;
+}
+
+export type ScaleName =
+  | "major"
+  | "minor"
+  | "ionian"
+  | "dorian"
+  | "phrygian"
+  | "lydian"
+  | "mixolydian"
+  | "aeolian"
+  | "locrian"
+  | "harmonic minor"
+  | "melodic minor"
+  | "major pentatonic"
+  | "minor pentatonic"
+  | "blues"
+  | "whole tone";
+
+export interface ScaleDetectionOptions {
+  // Scales to consider; defaults to every scale except the ionian/aeolian aliases
+  scales?: ScaleName[];
+}
+
+export interface ScaleCandidate {
+  // Tonic plus "m" for scales with a minor third, e.g. "D" or "Em"
+  key: string;
+  tonic: number;
+  scale: ScaleName;
+  // Strudel scale name without an octave, e.g. "D:minor:pentatonic"
+  strudelScale: string;
+  // Pearson correlation between the chroma and the rotated profile or template
+  score: number;
+}
+
+export type StrudelPreset = "default" | "lofi" | "minimal" | "live-coding";
+
+export type StrudelLayer = "melody" | "chords" | "bass" | "drums";
+
+export type StrudelLayout = "stack" | "labeled";
+
+// How note velocities are written: as a .velocity() or .gain() pattern, or not at all
+export type StrudelDynamics = "velocity" | "gain" | "none";
+
+export interface StrudelEffects {
+  room?: number;
+  lpf?: number;
+  delay?: number;
+}
+
+export interface StrudelLayerOptions {
+  sound?: string;
+  bank?: string;
+  gain?: number;
+  octave?: number;
+  effects?: StrudelEffects;
+}
+
+export type DrumClass = "kick" | "snare" | "hihat" | "other";
+
+export interface DrumHit {
+  drum: DrumClass;
+  time: number;
+  velocity: number;
+  confidence: number;
+}
+
+export interface DrumTranscriptionOptions {
+  method?: OnsetDetectionFunction;
+  frameSizeMs?: number;
+  hopSizeMs?: number;
+  // Onset strength above the local median, in standard deviations
+  threshold?: number;
+  // Minimum time between onsets, in seconds
+  minInterval?: number;
+  // A second instrument is reported for a hit when its score reaches this fraction of the best
+  multiHitRatio?: number;
+  // Seconds of signal searched for onsets at a time
+  chunkDuration?: number;
+}
+
+export interface BassExtractionOptions {
+  minFreq?: number;
+  maxFreq?: number;
+  // Low-pass cutoff applied before pitch tracking, in Hz
+  cutoff?: number;
+  // Rate the filtered signal is decimated to for tracking
+  analysisSampleRate?: number;
+  frameSizeMs?: number;
+  hopSizeMs?: number;
+  amplitudeThreshold?: number;
+  minNoteDuration?: number;
+  algorithm?: PitchAlgorithm;
+  voicingThreshold?: number;
+  referencePitch?: number;
+}
+
+export type OnsetDetectionFunction = "energy" | "spectralFlux" | "hfc" | "complexDomain";
+
+export interface OnsetDetectionOptions {
+  method?: OnsetDetectionFunction;
+  frameSizeMs?: number;
+  hopSizeMs?: number;
+  // Spectral methods only use bins up to this frequency, in Hz
+  maxFrequency?: number;
+  // Peak height above the local median, in standard deviations
+  threshold?: number;
+  // Seconds on each side of a frame used for the adaptive threshold
+  thresholdWindow?: number;
+  // Minimum time between onsets, in seconds
+  minInterval?: number;
+}
+
+export interface DetectionFunction {
+  values: number[];
+  frameRate: number;
+  // Time of the first value; value k is at startTime + k / frameRate
+  startTime: number;
+}
+
+export interface Onset {
+  time: number;
+  strength: number;
+}
+
+export type WindowType = "hann" | "hamming" | "blackmanHarris" | "rectangular";
+
+export interface ComplexSpectrum {
+  re: Float64Array;
+  im: Float64Array;
+}
+
+export interface StftOptions {
+  frameSize?: number;
+  hopSize?: number;
+  window?: WindowType;
+  // FFT length (zero-padded); defaults to the next power of two >= frameSize
+  fftSize?: number;
+}
+
+export interface Stft {
+  frames: ComplexSpectrum[];
+  frameSize: number;
+  hopSize: number;
+  fftSize: number;
+  window: WindowType;
+  sampleRate: number;
+}
+
+export interface Spectrogram {
+  // One array of bin values per frame
+  values: Float64Array[];
+  times: number[];
+  frequencies: number[];
+}
+
+export interface MelSpectrogramOptions extends StftOptions {
+  melBands?: number;
+  minFreq?: number;
+  maxFreq?: number;
+}
+
+export interface ConstantQOptions {
+  hopSize?: number;
+  minFreq?: number;
+  binsPerOctave?: number;
+  octaves?: number;
+}
+
+export interface TuningEstimationOptions {
+  // Histogram resolution, in cents
+  binCents?: number;
+  frameSize?: number;
+  hopSize?: number;
+  // Spectral peaks outside this range are ignored, in Hz
+  minFreq?: number;
+  maxFreq?: number;
+  // Peaks below this fraction of the frame's loudest bin are ignored
+  peakThreshold?: number;
+}
+
+export interface TuningEstimate {
+  // Estimated A4, in Hz
+  referencePitch: number;
+  // Offset of the recording from A4 = 440 Hz, in cents
+  cents: number;
+  // Share of the weight lying within 10 cents of the estimate
+  confidence: number;
+}
+
+export interface HpssOptions {
+  frameSize?: number;
+  hopSize?: number;
+  // Median filter lengths across time (harmonic) and frequency (percussive), in frames and bins
+  harmonicKernel?: number;
+  percussiveKernel?: number;
+  // Exponent of the soft masks; higher values separate more sharply
+  power?: number;
+  // Length of the blocks long signals are processed in, in seconds
+  chunkDuration?: number;
+}
+
+export interface HpssResult {
+  harmonic: Float32Array;
+  percussive: Float32Array;
+}
+
+export interface StructureOptions extends ChromaOptions {
+  // Beat times to average features over; fixed frames of frameDuration seconds otherwise
+  beats?: number[];
+  frameDuration?: number;
+  // Span of the frames stacked into each feature, in seconds
+  embeddingDuration?: number;
+  // Width of the Gaussian smoothing the structure features over time, in seconds
+  smoothingDuration?: number;
+  // Nearest neighbours counted as recurrences, as a fraction of the frames
+  neighbours?: number;
+  minSectionDuration?: number;
+  // Boundaries need novelty of at least this fraction of the maximum
+  noveltyThreshold?: number;
+  // Sections at least this similar repeat an earlier one; below variationThreshold they are a variation (A')
+  repeatThreshold?: number;
+  variationThreshold?: number;
+}
+
+export interface StructureSection {
+  start: number;
+  end: number;
+  // Letter of the section's group with a prime per variation, e.g. "A", "B", "A'"
+  label: string;
+  group: string;
+  // Similarity to the group's first section (1 for the first)
+  similarity: number;
+}
+
+export interface StructureAnalysis {
+  sections: StructureSection[];
+  // Section start times after the first, in seconds
+  boundaries: number[];
 }
@@ -0,0 +1,34 @@
+import { alignToDownbeat, trackBeats } from "../src";
+
+const sampleRate = 11025;
+
+// Clicks every interval seconds from offset, with a low accented click on every beatsPerBar-th from accentAt
+function clickTrack(interval: number, offset: number, beatsPerBar: number, accentAt: number, seconds: number): Float32Array {
+  const data = new Float32Array(sampleRate * seconds);
+  for (let k = 0; offset + k * interval < seconds - 0.1; k++) {
+    const start = Math.round((offset + k * interval) * sampleRate);
+    const accent = k % beatsPerBar === accentAt;
+    for (let i = 0; i < 300 && start + i < data.length; i++) {
+      data[start + i] += (accent ? 1 : 0.35) * Math.exp(-i / 60) * Math.sin((2 * Math.PI * (accent ? 80 : 1200) * i) / sampleRate);
+    }
+  }
+  return data;
+}
+
+describe("beat tracking", () => {
+  it("finds the beats and downbeats of a click track", () => {
+    const { beats, downbeats, tempo } = trackBeats(clickTrack(0.5, 0.25, 4, 1, 12), sampleRate);
+
+    expect(tempo).toBe(120);
+    expect(beats[0]).toBeCloseTo(0.25, 1);
+    expect(downbeats[0]).toBeCloseTo(0.75, 1);
+    expect(downbeats[1] - downbeats[0]).toBeCloseTo(2, 1);
+  });
+
+  it("starts an aligned grid a bar before its first downbeat", () => {
+    const beats = [0.25, 0.75, 1.25, 1.75, 2.25, 2.75];
+
+    expect(alignToDownbeat(beats, [0.75, 2.75], 4)).toEqual([-1.25, -0.75, -0.25, ...beats]);
+    expect(alignToDownbeat(beats, [0.25, 2.25], 4)).toEqual(beats);
+  });
+});
@@ -0,0 +1,41 @@
+import { extractChords, midiToFrequency } from "../src";
+
+const sampleRate = 22050;
+
+// Root-position triads, each held for its duration in seconds
+function triads(chords: { root: number; minor?: boolean; seconds: number }[]): Float32Array {
+  const total = chords.reduce((sum, chord) => sum + chord.seconds, 0);
+  const data = new Float32Array(Math.round(total * sampleRate));
+  let start = 0;
+  for (const { root, minor, seconds } of chords) {
+    const length = Math.round(seconds * sampleRate);
+    for (const midi of [root, root + (minor ? 3 : 4), root + 7]) {
+      const frequency = midiToFrequency(midi);
+      for (let i = 0; i < length; i++) {
+        data[start + i] += 0.2 * Math.sin((2 * Math.PI * frequency * i) / sampleRate) + 0.1 * Math.sin((4 * Math.PI * frequency * i) / sampleRate);
+      }
+    }
+    start += length;
+  }
+  return data;
+}
+
+describe("extractChords", () => {
+  it("recognizes a progression and where each chord starts", () => {
+    const data = triads([{ root: 60, seconds: 2 }, { root: 57, minor: true, seconds: 2 }, { root: 65, seconds: 2 }, { root: 67, seconds: 2 }]);
+    const chords = extractChords(data, sampleRate, 8, "C");
+
+    expect(chords.map(chord => chord.name)).toEqual(["C", "Am", "F", "G"]);
+    chords.forEach((chord, i) => expect(chord.time).toBeCloseTo(i * 2, 0));
+    expect(chords.map(chord => chord.degree)).toEqual(["I", "vi", "IV", "V"]);
+  });
+
+  it("smooths over a brief outlier as the self-transition probability rises", () => {
+    const data = triads([{ root: 60, seconds: 2 }, { root: 62, seconds: 0.08 }, { root: 60, seconds: 2 }]);
+    const names = (selfTransitionProbability: number) =>
+      extractChords(data, sampleRate, data.length / sampleRate, "C", { selfTransitionProbability }).map(chord => chord.name);
+
+    expect(names(0.9)).toEqual(["C", "D", "C"]);
+    expect(names(0.99)).toEqual(["C"]);
+  });
+});
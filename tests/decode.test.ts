@@ -0,0 +1,175 @@
+import { AudioDecodeError, decodeAiff, decodeAudioFile, decodeWav } from "../src";
+
+function ascii(text: string): number[] {
+  return Array.from(text, c => c.charCodeAt(0));
+}
+
+function uint16(value: number, littleEndian: boolean): number[] {
+  const bytes = [(value >> 8) & 0xff, value & 0xff];
+  return littleEndian ? bytes.reverse() : bytes;
+}
+
+function uint32(value: number, littleEndian: boolean): number[] {
+  const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  return littleEndian ? bytes.reverse() : bytes;
+}
+
+function chunk(id: string, payload: number[], littleEndian: boolean): number[] {
+  return [...ascii(id), ...uint32(payload.length, littleEndian), ...payload, ...(payload.length % 2 ? [0] : [])];
+}
+
+// Interleaved 16-bit samples
+function pcm16(samples: number[], littleEndian: boolean): number[] {
+  return samples.flatMap(sample => uint16(Math.round(sample * 32768) & 0xffff, littleEndian));
+}
+
+// Interleaved big-endian samples of a whole number of bytes
+function pcmBigEndian(samples: number[], bitDepth: number): number[] {
+  const bytes = bitDepth / 8;
+  return samples.flatMap(sample => {
+    const value = Math.round(sample * Math.pow(2, bitDepth - 1));
+    return Array.from({ length: bytes }, (_, i) => Math.floor(value / Math.pow(2, 8 * (bytes - 1 - i))) & 0xff);
+  });
+}
+
+function wav(options: { formatTag?: number; channels?: number; sampleRate?: number; bitDepth?: number; data?: number[]; omit?: string } = {}): Uint8Array {
+  const { formatTag = 1, channels = 2, sampleRate = 44100, bitDepth = 16 } = options;
+  const fmt = [
+    ...uint16(formatTag, true),
+    ...uint16(channels, true),
+    ...uint32(sampleRate, true),
+    ...uint32((sampleRate * channels * bitDepth) / 8, true),
+    ...uint16((channels * bitDepth) / 8, true),
+    ...uint16(bitDepth, true),
+  ];
+  const data = options.data ?? pcm16([0.5, -0.5, 0.25, 0], true);
+  const chunks = [
+    ...(options.omit === "fmt " ? [] : chunk("fmt ", fmt, true)),
+    ...(options.omit === "data" ? [] : chunk("data", data, true)),
+  ];
+  return Uint8Array.from([...ascii("RIFF"), ...uint32(4 + chunks.length, true), ...ascii("WAVE"), ...chunks]);
+}
+
+// 80-bit extended float for a positive integer sample rate
+function extended(value: number): number[] {
+  const exponent = Math.floor(Math.log2(value));
+  const mantissa = value / Math.pow(2, exponent - 31);
+  return [...uint16(16383 + exponent, false), ...uint32(mantissa, false), 0, 0, 0, 0];
+}
+
+function aiff(options: { rate?: number[]; compression?: string; bitDepth?: number; omit?: string } = {}): Uint8Array {
+  const { bitDepth = 16 } = options;
+  const littleEndian = options.compression === "sowt";
+  const samples = littleEndian ? pcm16([0.5, -0.5, 0.25, 0], true) : pcmBigEndian([0.5, -0.5, 0.25, 0], bitDepth);
+  const comm = [
+    ...uint16(2, false),
+    ...uint32(2, false),
+    ...uint16(bitDepth, false),
+    ...(options.rate ?? extended(48000)),
+    ...(options.compression ? [...ascii(options.compression), 0, 0] : []),
+  ];
+  const chunks = [
+    ...(options.omit === "COMM" ? [] : chunk("COMM", comm, false)),
+    ...(options.omit === "SSND" ? [] : chunk("SSND", [...uint32(0, false), ...uint32(0, false), ...samples], false)),
+  ];
+  const formType = options.compression ? "AIFC" : "AIFF";
+  return Uint8Array.from([...ascii("FORM"), ...uint32(4 + chunks.length, false), ...ascii(formType), ...chunks]);
+}
+
+function decodeError(decode: () => unknown): AudioDecodeError {
+  try {
+    decode();
+  } catch (error) {
+    if (error instanceof AudioDecodeError) return error;
+    throw error;
+  }
+  throw new Error("Expected an AudioDecodeError");
+}
+
+describe("decodeWav", () => {
+  it("decodes 16-bit PCM stereo and downmixes it", () => {
+    const decoded = decodeWav(wav());
+
+    expect(decoded.sampleRate).toBe(44100);
+    expect(decoded.bitDepth).toBe(16);
+    expect(decoded.format).toBe("wav");
+    expect(Array.from(decoded.channels[0])).toEqual([0.5, 0.25]);
+    expect(Array.from(decoded.channels[1])).toEqual([-0.5, 0]);
+    expect(Array.from(decoded.data)).toEqual([0, 0.125]);
+    expect(Array.from(decodeWav(wav(), { channelMode: "right" }).data)).toEqual([-0.5, 0]);
+  });
+
+  it("decodes 32-bit float", () => {
+    const data = Array.from(new Uint8Array(Float32Array.from([0.75, -0.125]).buffer));
+    const decoded = decodeWav(wav({ formatTag: 3, channels: 1, bitDepth: 32, data }));
+
+    expect(Array.from(decoded.data)).toEqual([0.75, -0.125]);
+  });
+
+  it.each([
+    ["a file that is not RIFF WAVE", () => Uint8Array.from(ascii("RIFF\0\0\0\0AVI ")), "INVALID_HEADER"],
+    ["a missing fmt chunk", () => wav({ omit: "fmt " }), "MISSING_CHUNK"],
+    ["a missing data chunk", () => wav({ omit: "data" }), "MISSING_CHUNK"],
+    ["a compressed format", () => wav({ formatTag: 2 }), "UNSUPPORTED_FORMAT"],
+    ["an unsupported bit depth", () => wav({ bitDepth: 12 }), "UNSUPPORTED_FORMAT"],
+    ["a sample rate of zero", () => wav({ sampleRate: 0 }), "INVALID_HEADER"],
+    ["zero channels", () => wav({ channels: 0 }), "INVALID_HEADER"],
+  ])("rejects %s", (_, bytes, code) => {
+    expect(decodeError(() => decodeWav(bytes())).code).toBe(code);
+  });
+});
+
+describe("decodeAiff", () => {
+  it("decodes big-endian AIFF", () => {
+    const decoded = decodeAiff(aiff());
+
+    expect(decoded.sampleRate).toBe(48000);
+    expect(decoded.format).toBe("aiff");
+    expect(Array.from(decoded.channels[0])).toEqual([0.5, 0.25]);
+    expect(Array.from(decoded.channels[1])).toEqual([-0.5, 0]);
+  });
+
+  it.each([
+    ["twos", 16],
+    ["in24", 24],
+    ["in32", 32],
+  ])("decodes big-endian AIFF-C compressed as %s", (compression, bitDepth) => {
+    const decoded = decodeAiff(aiff({ compression: compression as string, bitDepth: bitDepth as number }));
+
+    expect(decoded.format).toBe("aifc");
+    expect(decoded.bitDepth).toBe(bitDepth);
+    expect(Array.from(decoded.channels[0])).toEqual([0.5, 0.25]);
+    expect(Array.from(decoded.channels[1])).toEqual([-0.5, 0]);
+  });
+
+  it("decodes little-endian AIFF-C", () => {
+    const decoded = decodeAiff(aiff({ compression: "sowt" }));
+
+    expect(decoded.format).toBe("aifc");
+    expect(Array.from(decoded.channels[0])).toEqual([0.5, 0.25]);
+  });
+
+  it.each([
+    ["a file that is not AIFF", () => Uint8Array.from(ascii("FORM\0\0\0\x008SVX")), "INVALID_HEADER"],
+    ["a missing COMM chunk", () => aiff({ omit: "COMM" }), "MISSING_CHUNK"],
+    ["a missing SSND chunk", () => aiff({ omit: "SSND" }), "MISSING_CHUNK"],
+    ["an unsupported compression", () => aiff({ compression: "ulaw" }), "UNSUPPORTED_FORMAT"],
+    ["a sample rate of zero", () => aiff({ rate: new Array(10).fill(0) }), "INVALID_HEADER"],
+    ["an infinite sample rate", () => aiff({ rate: [0x7f, 0xff, 0x80, 0, 0, 0, 0, 0, 0, 0] }), "INVALID_HEADER"],
+    ["a negative sample rate", () => aiff({ rate: [0xc0, 0x0e, 0xac, 0x44, 0, 0, 0, 0, 0, 0] }), "INVALID_HEADER"],
+  ])("rejects %s", (_, bytes, code) => {
+    expect(decodeError(() => decodeAiff(bytes())).code).toBe(code);
+  });
+});
+
+describe("decodeAudioFile", () => {
+  it("detects the container from the header", () => {
+    expect(decodeAudioFile(wav()).format).toBe("wav");
+    expect(decodeAudioFile(aiff()).format).toBe("aiff");
+  });
+
+  it("rejects unknown containers", () => {
+    expect(decodeError(() => decodeAudioFile(Uint8Array.from(ascii("OggS\0\0\0\0\0\0\0\0")))).code)
+      .toBe("UNSUPPORTED_FORMAT");
+  });
+});
@@ -0,0 +1,39 @@
+import { separateHarmonicPercussive } from "../src";
+
+const sampleRate = 22050;
+
+function rms(data: Float32Array, from: number, to: number): number {
+  return Math.sqrt(data.subarray(from, to).reduce((sum, v) => sum + v * v, 0) / (to - from));
+}
+
+describe("separateHarmonicPercussive", () => {
+  // A held harmonic tone with a noise burst every half second
+  const data = new Float32Array(sampleRate * 3);
+  let seed = 1;
+  const noise = () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 2 - 1;
+  for (let i = 0; i < data.length; i++) {
+    data[i] = [1, 2, 3].reduce((sum, h) => sum + (0.3 / h) * Math.sin((2 * Math.PI * 330 * h * i) / sampleRate), 0);
+  }
+  for (let time = 0.3; time < 3; time += 0.5) {
+    const start = Math.round(time * sampleRate);
+    for (let i = 0; i < 400; i++) data[start + i] += 0.8 * Math.exp(-i / 80) * noise();
+  }
+
+  it("puts the held tone in the harmonic part and the bursts in the percussive part", () => {
+    const { harmonic, percussive } = separateHarmonicPercussive(data, sampleRate);
+    const burst = Math.round(1.3 * sampleRate);
+    const between = burst - 4000;
+
+    expect(rms(harmonic, between, between + 3000)).toBeGreaterThan(0.2);
+    expect(rms(percussive, between, between + 3000)).toBeLessThan(0.01);
+    expect(rms(percussive, burst, burst + 400)).toBeGreaterThan(0.1);
+  });
+
+  it("gives the same output chunk by chunk as over the whole signal", () => {
+    const whole = separateHarmonicPercussive(data, sampleRate);
+    const chunked = separateHarmonicPercussive(data, sampleRate, { chunkDuration: 0.7 });
+
+    expect(Array.from(chunked.harmonic)).toEqual(Array.from(whole.harmonic));
+    expect(Array.from(chunked.percussive)).toEqual(Array.from(whole.percussive));
+  });
+});
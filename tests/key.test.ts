@@ -0,0 +1,36 @@
+import { detectKeyDetailed, formatStrudelScale, rankScales, strudelScaleName } from "../src";
+
+// Pitch-class weights of a D dorian melody centred on D and A
+const dDorian = [1, 0, 4, 0, 1, 2, 0, 1, 0, 3, 0, 1];
+
+describe("Strudel scale names", () => {
+  it("formats scales with and without an octave", () => {
+    expect(strudelScaleName(2, "minor pentatonic")).toBe("D:minor:pentatonic");
+    expect(strudelScaleName(13, "major")).toBe("C#:major");
+    expect(formatStrudelScale(50, "minor pentatonic")).toBe("D3:minor:pentatonic");
+  });
+
+  it("names every ranked scale", () => {
+    const best = rankScales(dDorian)[0];
+
+    expect([best.key, best.scale, best.strudelScale]).toEqual(["Dm", "dorian", "D:dorian"]);
+  });
+});
+
+describe("detectKeyDetailed", () => {
+  it("ranks the 24 major and minor keys", () => {
+    const result = detectKeyDetailed(dDorian);
+
+    expect(result.candidates).toHaveLength(24);
+    expect(result.strudelScale).toBe(`${result.key.replace("m", "")}:${result.mode}`);
+    expect(result.candidates?.[0]).toMatchObject({ key: result.key, scale: result.mode, strudelScale: result.strudelScale });
+  });
+
+  it("reports the scale candidates when detecting the mode", () => {
+    const result = detectKeyDetailed(dDorian, { detectMode: true });
+
+    expect([result.key, result.mode, result.strudelScale]).toEqual(["Dm", "dorian", "D:dorian"]);
+    expect(result.candidates?.[0]).toMatchObject({ key: "Dm", tonic: 2, scale: "dorian", strudelScale: "D:dorian" });
+    expect(result.candidates?.length).toBeGreaterThan(24);
+  });
+});
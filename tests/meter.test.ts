@@ -0,0 +1,25 @@
+import { analyzeAudio } from "../src";
+
+const sampleRate = 11025;
+
+// Clicks every interval seconds, a low accented click starting each bar of beatsPerBar
+function clickTrack(interval: number, beatsPerBar: number, seconds: number): Float32Array {
+  const data = new Float32Array(sampleRate * seconds);
+  for (let k = 0; k * interval < seconds - 0.1; k++) {
+    const start = Math.round(k * interval * sampleRate);
+    const accent = k % beatsPerBar === 0;
+    for (let i = 0; i < 300 && start + i < data.length; i++) {
+      data[start + i] += (accent ? 1 : 0.35) * Math.exp(-i / 60) * Math.sin((2 * Math.PI * (accent ? 80 : 1200) * i) / sampleRate);
+    }
+  }
+  return data;
+}
+
+describe("detected meter", () => {
+  it.each([false, true])("sets the cycle length from its own beats (useBeatGrid %s)", useBeatGrid => {
+    const result = analyzeAudio(clickTrack(0.4, 7, 20), sampleRate, { autoDetectTimeSignature: true, useBeatGrid });
+
+    expect(result.meter?.timeSignature).toBe("7/8");
+    expect(result.strudelCode.combined).toContain("cpm(21.43)");
+  });
+});
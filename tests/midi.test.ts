@@ -0,0 +1,118 @@
+import { MidiParseError, midiToFrequency, noteToFrequency, readMidi, transposeNote, writeMidi } from "../src";
+import { MidiExportInput } from "../src/types";
+
+const input: MidiExportInput = {
+  melody: [
+    { note: "e4", time: 0, duration: 0.5, velocity: 0.8 },
+    { note: "fs4", time: 0.5, duration: 0.25, velocity: 0.4 },
+    { note: "b4", time: 1, duration: 1, velocity: 1 },
+  ],
+  chords: [
+    { notes: ["e3", "g3", "b3"], name: "Em", time: 0, duration: 2 },
+  ],
+  tempo: 120,
+  timeSignature: "3/4",
+  key: "Em",
+};
+
+// Replace the payload of the first meta event of a type, which must keep its length
+function patchMeta(bytes: Uint8Array, type: number, payload: number[]): Uint8Array {
+  const patched = bytes.slice();
+  const index = patched.findIndex((byte, i) => byte === 0xff && patched[i + 1] === type);
+  patched.set(payload, index + 3);
+  return patched;
+}
+
+describe("writeMidi and readMidi", () => {
+  it.each([0, 1] as const)("round-trips notes, tempo, meter and key in format %i", format => {
+    const result = readMidi(writeMidi(input, { format }));
+
+    expect(result.tempo).toBe(120);
+    expect(result.timeSignature).toBe("3/4");
+    expect(result.key).toBe("Em");
+    expect(result.duration).toBeCloseTo(2);
+    expect(result.notes.filter(note => note.channel === 0).map(note => [note.note, note.time, note.duration, note.velocity]))
+      .toEqual([
+        ["e4", 0, 0.5, 102 / 127],
+        ["fs4", 0.5, 0.25, 51 / 127],
+        ["b4", 1, 1, 1],
+      ]);
+    expect(result.notes.filter(note => note.channel === 1).map(note => note.note).sort()).toEqual(["b3", "e3", "g3"]);
+  });
+
+  it("keeps melody and chords on separate named tracks", () => {
+    const { tracks } = readMidi(writeMidi(input));
+
+    expect(tracks.map(track => [track.name, track.notes.length])).toEqual([
+      [undefined, 0],
+      ["Melody", 3],
+      ["Chords", 3],
+    ]);
+  });
+
+  it("converts ticks to seconds at the written tempo", () => {
+    const result = readMidi(writeMidi({ ...input, tempo: 90 }));
+
+    expect(result.tempo).toBeCloseTo(90, 3);
+    expect(result.notes.find(note => note.note === "b4")?.time).toBeCloseTo(1, 2);
+  });
+
+  it.each([
+    [-6, 0, "F#"],
+    [-7, 0, "B"],
+    [7, 0, "C#"],
+    [-6, 1, "D#m"],
+    [7, 1, "A#m"],
+    [2, 1, "Bm"],
+  ])("reads a key signature of %i fifths (minor: %i) as %s", (fifths, minor, key) => {
+    const bytes = patchMeta(writeMidi(input), 0x59, [fifths & 0xff, minor]);
+
+    expect(readMidi(bytes).key).toBe(key);
+  });
+
+  it("starts the tempo map at 120 BPM when the first tempo change comes later", () => {
+    // One track: a quarter note at 120 BPM, then a switch to 60 BPM
+    const track = [
+      0x00, 0x90, 60, 100,
+      0x83, 0x60, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40,
+      0x00, 0x80, 60, 0,
+      0x00, 0xff, 0x2f, 0x00,
+    ];
+    const bytes = Uint8Array.from([
+      ...[0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xe0],
+      ...[0x4d, 0x54, 0x72, 0x6b, 0, 0, 0, track.length],
+      ...track,
+    ]);
+    const result = readMidi(bytes);
+
+    expect(result.tempoMap).toEqual([{ time: 0, bpm: 120 }, { time: 0.5, bpm: 60 }]);
+    expect(result.tempo).toBe(120);
+    expect(result.notes[0].duration).toBeCloseTo(0.5);
+  });
+
+  it("adds the tuning offset to pitch bends", () => {
+    const bytes = writeMidi(input, { pitchBend: true, referencePitch: 432 });
+    // Pitch-bend events at delta time zero: [channel, bend relative to centre]
+    const bends: [number, number][] = [];
+    bytes.forEach((byte, i) => {
+      if ((byte & 0xf0) === 0xe0 && bytes[i - 1] === 0) bends.push([byte & 0x0f, ((bytes[i + 2] << 7) | bytes[i + 1]) - 8192]);
+    });
+    const offset = Math.round(((1200 * Math.log2(432 / 440)) / 200) * 8192);
+
+    expect(bends).toContainEqual([0, offset]);
+    expect(bends).toContainEqual([1, offset]);
+  });
+
+  it("names notes below C0 so the rest of the pipeline reads them", () => {
+    const result = readMidi(writeMidi({ ...input, melody: [{ note: "f-1", time: 0, duration: 1 }], chords: [] }));
+    const [note] = result.notes;
+
+    expect(note.note).toBe("f-1");
+    expect(noteToFrequency(note.note)).toBeCloseTo(midiToFrequency(5), 5);
+    expect(transposeNote(note.note, 12)).toBe("f0");
+  });
+
+  it("rejects bytes that are not a MIDI file", () => {
+    expect(() => readMidi(new Uint8Array([1, 2, 3, 4]))).toThrow(MidiParseError);
+  });
+});
@@ -0,0 +1,27 @@
+import { detectOnsets, extractMelody } from "../src";
+
+const sampleRate = 22050;
+
+function tone(frequency: number, seconds: number, gate = (_t: number) => 1): Float32Array {
+  return Float32Array.from(
+    { length: Math.round(sampleRate * seconds) },
+    (_, i) => 0.5 * gate(i / sampleRate) * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  );
+}
+
+describe("onset detection", () => {
+  it("finds the attacks of gated notes", () => {
+    const onsets = detectOnsets(tone(440, 2, t => (t % 0.5 < 0.25 ? 1 : 0)), sampleRate);
+
+    for (const attack of [0.5, 1, 1.5]) {
+      expect(onsets.some(onset => Math.abs(onset.time - attack) < 0.05)).toBe(true);
+    }
+  });
+
+  it("keeps a sustained tone as one note", () => {
+    const held = tone(440, 1);
+
+    expect(detectOnsets(held, sampleRate)).toHaveLength(0);
+    expect(extractMelody(held, sampleRate).notes.map(note => note.note)).toEqual(["a4"]);
+  });
+});
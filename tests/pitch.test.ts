@@ -0,0 +1,48 @@
+import { detectPitchPyin, detectPitchYin, extractMelody, frequencyToNote, midiToFrequency } from "../src";
+
+const sampleRate = 22050;
+
+function sine(frequency: number, seconds: number): Float32Array {
+  return Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+describe("frequencyToNote", () => {
+  it("names a sharp B as the C of the next octave", () => {
+    expect(frequencyToNote(midiToFrequency(71.6))).toBe("c5");
+    expect(frequencyToNote(midiToFrequency(71.4))).toBe("b4");
+    expect(frequencyToNote(midiToFrequency(59.6))).toBe("c4");
+  });
+
+  it("measures melody cents and contours against the same note", () => {
+    const { notes } = extractMelody(sine(midiToFrequency(71.6), 1), sampleRate, {
+      capturePitchContour: true,
+      splitNotesAtOnsets: false,
+    });
+
+    expect(notes.map(note => note.note)).toEqual(["c5"]);
+    expect(notes[0].cents).toBeCloseTo(-40, -1);
+    expect(notes[0].contour?.every(point => Math.abs(point.cents + 40) < 10)).toBe(true);
+  });
+});
+
+describe("YIN and pYIN", () => {
+  // A 220 Hz tone with four harmonics, and white noise
+  const tone = Float32Array.from({ length: 2048 }, (_, i) =>
+    [1, 2, 3, 4].reduce((sum, h) => sum + (0.3 / h) * Math.sin((2 * Math.PI * 220 * h * i) / sampleRate), 0));
+  let seed = 1;
+  const noise = Float32Array.from({ length: 2048 }, () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 2 - 1);
+
+  it.each([["yin", detectPitchYin], ["pyin", detectPitchPyin]])("%s finds the fundamental of a harmonic tone", (_, detect) => {
+    const estimate = detect(tone, sampleRate);
+
+    expect(estimate.frequency).toBeCloseTo(220, 0);
+    expect(estimate.voiced).toBe(true);
+  });
+
+  it.each([["yin", detectPitchYin], ["pyin", detectPitchPyin]])("%s reports noise as unvoiced", (_, detect) => {
+    const estimate = detect(noise, sampleRate);
+
+    expect(estimate.voiced).toBe(false);
+    expect(estimate.confidence).toBeLessThan(0.5);
+  });
+});
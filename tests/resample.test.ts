@@ -0,0 +1,36 @@
+import { detectPitchYin, resample } from "../src";
+
+function sine(frequency: number, sampleRate: number, seconds: number): Float32Array {
+  return Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+// Largest absolute sample away from the edges, where the kernel runs off the signal
+function interiorPeak(data: Float32Array, margin: number): number {
+  return data.subarray(margin, data.length - margin).reduce((peak, v) => Math.max(peak, Math.abs(v)), 0);
+}
+
+describe("resample", () => {
+  it("keeps a tone's pitch and the signal's duration", () => {
+    const output = resample(sine(440, 44100, 1), 44100, 22050);
+
+    expect(output.length).toBe(22050);
+    expect(detectPitchYin(output.subarray(1000, 3048), 22050).frequency).toBeCloseTo(440, 0);
+  });
+
+  it("removes content above the new Nyquist frequency instead of aliasing it", () => {
+    expect(interiorPeak(resample(sine(15000, 44100, 1), 44100, 22050), 1000)).toBeLessThan(1e-3);
+  });
+
+  it("restores a band-limited signal when upsampling back", () => {
+    const original = sine(440, 44100, 1);
+    const restored = resample(resample(original, 44100, 22050), 22050, 44100);
+    const error = restored.map((v, i) => v - original[i]);
+
+    expect(interiorPeak(error, 2000)).toBeLessThan(1e-3);
+  });
+
+  it("rejects rates that are not positive and finite", () => {
+    expect(() => resample(new Float32Array(10), 0, 22050)).toThrow(RangeError);
+    expect(() => resample(new Float32Array(10), 44100, Infinity)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,34 @@
+import { constantQSpectrogram } from "../src";
+
+function sine(frequencies: number[], sampleRate: number, duration: number): Float32Array {
+  return Float32Array.from({ length: Math.round(sampleRate * duration) }, (_, i) =>
+    frequencies.reduce((sum, frequency) => sum + Math.sin((2 * Math.PI * frequency * i) / sampleRate), 0) / frequencies.length);
+}
+
+describe("constantQSpectrogram", () => {
+  it("centres one frame on every hop", () => {
+    const { values, times, frequencies } = constantQSpectrogram(sine([440], 22050, 1), 22050, { hopSize: 256 });
+
+    expect(values).toHaveLength(Math.floor(22050 / 256) + 1);
+    expect(times[1]).toBeCloseTo(256 / 22050);
+    expect(frequencies).toHaveLength(84);
+    expect(frequencies[0]).toBeCloseTo(32.7);
+  });
+
+  it.each([55, 220, 440, 1760])("peaks at the bin of a %i Hz tone", frequency => {
+    const { values, frequencies } = constantQSpectrogram(sine([frequency], 11025, 1), 11025);
+    const frame = values[Math.floor(values.length / 2)];
+    const peak = frame.indexOf(Math.max(...frame));
+
+    expect(frequencies[peak]).toBeCloseTo(frequency, -1);
+  });
+
+  it("resolves tones in separate octaves at their level", () => {
+    const { values, frequencies } = constantQSpectrogram(sine([110, 880], 11025, 1), 11025);
+    const frame = values[Math.floor(values.length / 2)];
+    const level = (frequency: number) => frame[frequencies.findIndex(f => Math.abs(f - frequency) < 1)];
+
+    expect(level(110)).toBeCloseTo(level(880), 2);
+    expect(level(220)).toBeLessThan(level(110) / 100);
+  });
+});
@@ -0,0 +1,65 @@
+import { StreamingAnalyzer } from "../src";
+import { StreamingEvent } from "../src/types";
+
+const sampleRate = 22050;
+
+function tone(frequency: number, seconds: number): Float32Array {
+  return Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) =>
+    [1, 2, 3, 4].reduce((sum, h) => sum + (0.3 / h) * Math.sin((2 * Math.PI * frequency * h * i) / sampleRate), 0));
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const data = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => (data.set(part, offset), offset + part.length), 0);
+  return data;
+}
+
+// Feed the signal in chunks of the given size and return every event
+function stream(analyzer: StreamingAnalyzer, data: Float32Array, chunkSize: number): StreamingEvent[] {
+  const events: StreamingEvent[] = [];
+  for (let i = 0; i < data.length; i += chunkSize) {
+    events.push(...analyzer.process(data.subarray(i, i + chunkSize)));
+  }
+  return [...events, ...analyzer.flush()];
+}
+
+describe("StreamingAnalyzer", () => {
+  const melody = concat(tone(440, 0.5), new Float32Array(sampleRate / 4), tone(523.25, 0.5), new Float32Array(sampleRate / 4));
+
+  it("emits note-on and note-off events for a melody", () => {
+    const analyzer = new StreamingAnalyzer(sampleRate);
+    const events = stream(analyzer, melody, 1000)
+      .flatMap(event => (event.type === "noteon" || event.type === "noteoff" ? [`${event.type}:${event.note}`] : []));
+
+    expect(events).toEqual(["noteon:a4", "noteoff:a4", "noteon:c5", "noteoff:c5"]);
+    expect(analyzer.notes.map(note => note.note)).toEqual(["a4", "c5"]);
+    expect(analyzer.notes[1].time).toBeCloseTo(0.75, 1);
+    expect(Math.abs((analyzer.notes[1].duration ?? 0) - 0.5)).toBeLessThan(0.1);
+  });
+
+  it("reports the same events whatever the chunk size", () => {
+    const analyzer = new StreamingAnalyzer(sampleRate);
+    const small = stream(analyzer, melody, 1000);
+    analyzer.reset();
+
+    expect(stream(analyzer, melody, 4096)).toEqual(small);
+  });
+
+  it("locks onto the beat of a click track", () => {
+    const data = new Float32Array(sampleRate * 10);
+    for (let time = 0.25; time < 10; time += 0.5) {
+      const start = Math.round(time * sampleRate);
+      for (let i = 0; i < 300; i++) {
+        data[start + i] += Math.exp(-i / 60) * Math.sin((2 * Math.PI * 1200 * i) / sampleRate);
+      }
+    }
+    const analyzer = new StreamingAnalyzer(sampleRate);
+    const beats: number[] = [];
+    analyzer.on("beat", beat => beats.push(beat.time));
+    stream(analyzer, data, 2048);
+
+    expect(analyzer.tempo).toBeCloseTo(120, -1);
+    expect(beats.length).toBeGreaterThan(8);
+    beats.slice(1).forEach((time, i) => expect(time - beats[i]).toBeCloseTo(0.5, 1));
+  });
+});
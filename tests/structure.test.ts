@@ -0,0 +1,36 @@
+import { detectStructure, midiToFrequency } from "../src";
+
+const sampleRate = 11025;
+
+// Eight triads of 1.5 s each, major or minor
+function section(roots: number[], minor: boolean): Float32Array {
+  const length = Math.round(1.5 * sampleRate);
+  const data = new Float32Array(roots.length * length);
+  roots.forEach((root, c) => {
+    for (const midi of [root, root + (minor ? 3 : 4), root + 7]) {
+      const frequency = midiToFrequency(midi);
+      for (let i = 0; i < length; i++) {
+        data[c * length + i] += 0.2 * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+      }
+    }
+  });
+  return data;
+}
+
+describe("detectStructure", () => {
+  it("finds the sections of an AABA form", () => {
+    const a = section([60, 67, 57, 65, 62, 64, 55, 59], false);
+    const b = section([61, 66, 63, 68, 58, 70, 56, 54], true);
+    const song = new Float32Array(a.length * 4);
+    [a, a, b, a].forEach((part, i) => song.set(part, i * a.length));
+    const { sections, boundaries } = detectStructure(song, sampleRate);
+
+    expect(sections.map(s => s.label)).toEqual(["A", "A", "B", "A"]);
+    expect(boundaries).toHaveLength(3);
+    boundaries.forEach((time, i) => expect(Math.abs(time - (i + 1) * 12)).toBeLessThan(1));
+  });
+
+  it("returns no sections for an empty signal", () => {
+    expect(detectStructure(new Float32Array(0), sampleRate)).toEqual({ sections: [], boundaries: [] });
+  });
+});
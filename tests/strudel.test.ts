@@ -0,0 +1,191 @@
+import { generateStrudelCode, parseStrudelCode } from "../src";
+import { Chord, DrumHit, Note } from "../src/types";
+
+const scale = ["c4", "d4", "e4", "f4", "g4", "a4", "b4", "c5"];
+
+// Quarter notes at 120 BPM, one every half second
+function quarterNotes(names: string[], velocities?: number[]): Note[] {
+  return names.map((note, i) => ({ note, time: i * 0.5, duration: 0.5, velocity: velocities?.[i] }));
+}
+
+function summarize(notes: Note[]): [string, number, number][] {
+  return notes.map(note => [note.note, Number(note.time.toFixed(3)), Number((note.duration ?? 0).toFixed(3))]);
+}
+
+describe("generateStrudelCode and parseStrudelCode", () => {
+  const chords: Chord[] = [
+    { notes: ["c4", "e4", "g4"], name: "C", time: 0, duration: 2 },
+    { notes: ["g3", "b3", "d4"], name: "G", time: 2, duration: 2 },
+  ];
+
+  it("round-trips melody and chords", () => {
+    const melody = quarterNotes(scale);
+    const code = generateStrudelCode(melody, chords, 120, "4/4");
+    const parsed = parseStrudelCode(code.combined);
+
+    expect(parsed.cyclesPerMinute).toBe(30);
+    expect(summarize(parsed.layers[0])).toEqual(summarize(melody));
+    expect(summarize(parsed.layers[1])).toEqual([
+      ["c4", 0, 2], ["e4", 0, 2], ["g4", 0, 2],
+      ["g3", 2, 2], ["b3", 2, 2], ["d4", 2, 2],
+    ]);
+  });
+
+  it("round-trips rests and held notes", () => {
+    const melody: Note[] = [
+      { note: "e4", time: 0, duration: 1.5 },
+      { note: "g4", time: 2, duration: 0.25 },
+      { note: "a4", time: 2.25, duration: 0.25 },
+    ];
+    const parsed = parseStrudelCode(generateStrudelCode(melody, [], 120, "4/4").combined);
+
+    expect(summarize(parsed.layers[0])).toEqual(summarize(melody));
+  });
+
+  it("round-trips scale degrees", () => {
+    const melody = quarterNotes(scale);
+    const code = generateStrudelCode(melody, [], 120, "4/4", { key: "C", scaleDegrees: true });
+    const parsed = parseStrudelCode(code.combined);
+
+    expect(code.melody).toContain(".scale(");
+    expect(summarize(parsed.layers[0])).toEqual(summarize(melody));
+  });
+
+  it("round-trips velocities", () => {
+    const melody = quarterNotes(scale, [1, 0.5, 1, 0.5, 0.8, 0.8, 0.3, 1]);
+    const code = generateStrudelCode(melody, [], 120, "4/4");
+    const parsed = parseStrudelCode(code.combined);
+
+    expect(code.melody).toContain(".velocity(");
+    expect(parsed.layers[0].map(note => note.velocity)).toEqual([1, 0.5, 1, 0.5, 0.8, 0.8, 0.3, 1]);
+  });
+
+  it("writes no velocities for near-constant levels and quantizes the rest", () => {
+    const steady = generateStrudelCode(quarterNotes(scale, [1, 0.97, 0.99, 0.95, 1, 0.96, 0.98, 1]), [], 120, "4/4");
+    const varying = generateStrudelCode(quarterNotes(scale, [1, 0.52, 1, 0.52, 0.83, 0.83, 0.31, 1]), [], 120, "4/4");
+
+    expect(steady.melody).not.toContain(".velocity(");
+    expect(parseStrudelCode(varying.combined).layers[0].map(note => note.velocity)).toEqual([1, 0.5, 1, 0.5, 0.85, 0.85, 0.3, 1]);
+  });
+
+  it("round-trips material split into sections with arrange()", () => {
+    const melody = quarterNotes([...scale, ...scale.slice().reverse(), ...scale, "c4", "c4", "c4", "c4"]);
+    const code = generateStrudelCode(melody, [], 120, "4/4", { sectionBars: 2 });
+    const parsed = parseStrudelCode(code.combined);
+
+    expect(code.combined).toContain("arrange(");
+    expect(summarize(parsed.layers[0])).toEqual(summarize(melody));
+  });
+
+  it("round-trips song sections written as named patterns", () => {
+    const verse = ["c4", "e4", "g4", "e4", "c4", "e4", "g4", "e4"];
+    const chorus = ["f4", "a4", "c5", "a4", "f4", "a4", "c5", "a4"];
+    const melody = quarterNotes([...verse, ...chorus, ...verse]);
+    const code = generateStrudelCode(melody, [], 120, "4/4", {
+      structure: [
+        { start: 0, end: 4, label: "A", group: "A", similarity: 1 },
+        { start: 4, end: 8, label: "B", group: "B", similarity: 1 },
+        { start: 8, end: 12, label: "A", group: "A", similarity: 0.95 },
+      ],
+    });
+    const parsed = parseStrudelCode(code.combined);
+
+    expect(code.combined).toContain("// Sections: A B A");
+    expect(code.combined).toMatch(/const sectionA = /);
+    expect(summarize(parsed.layers[0])).toEqual(summarize(melody));
+  });
+
+  it("writes a repeat whose notes differ as a variation", () => {
+    const verse = ["c4", "e4", "g4", "e4", "c4", "e4", "g4", "e4"];
+    const fill = ["c4", "e4", "g4", "e4", "c4", "d4", "e4", "g4"];
+    const chorus = ["f4", "a4", "c5", "a4", "f4", "a4", "c5", "a4"];
+    const melody = quarterNotes([...verse, ...chorus, ...fill, ...verse]);
+    const code = generateStrudelCode(melody, [], 120, "4/4", {
+      structure: [
+        { start: 0, end: 4, label: "A", group: "A", similarity: 1 },
+        { start: 4, end: 8, label: "B", group: "B", similarity: 1 },
+        { start: 8, end: 12, label: "A", group: "A", similarity: 0.9 },
+        { start: 12, end: 16, label: "A", group: "A", similarity: 0.95 },
+      ],
+    });
+    const parsed = parseStrudelCode(code.combined);
+
+    expect(code.combined).toContain("// Sections: A B A' A");
+    expect(code.combined).toMatch(/const sectionA1 = /);
+    expect(summarize(parsed.layers[0])).toEqual(summarize(melody));
+  });
+
+  it("round-trips notes held across a barline as one note", () => {
+    const melody = [["c4", 0, 1.5], ["e4", 1.5, 1], ["g4", 2.5, 1.5]]
+      .map(([note, time, duration]) => ({ note: note as string, time: time as number, duration: duration as number }));
+    const chords: Chord[] = [
+      { name: "C", notes: ["c3", "e3", "g3"], time: 0, duration: 3 },
+      { name: "G", notes: ["g3", "b3", "d4"], time: 3, duration: 1 },
+    ];
+    const code = generateStrudelCode(melody, chords, 120, "4/4");
+    const parsed = parseStrudelCode(code.combined);
+
+    expect(code.melody).toBe('note("[c4@3 e4@2 g4@3]").slow(2).sound("piano")');
+    expect(summarize(parsed.layers[0])).toEqual(summarize(melody));
+    expect(parsed.layers[1].filter(note => note.note === "c3")).toEqual([{ note: "c3", time: 0, duration: 3 }]);
+  });
+
+  it("round-trips repeated held bars when compressing", () => {
+    const melody = ["c4", "c4", "g4", "g4"].map((note, i) => ({ note, time: i * 2, duration: 2 }));
+    const code = generateStrudelCode(melody, [], 120, "4/4", { compress: true });
+    const parsed = parseStrudelCode(code.combined);
+
+    expect(code.melody).toBe('note("<c4!2 g4!2>").sound("piano")');
+    expect(summarize(parsed.layers[0])).toEqual(summarize(melody));
+  });
+
+  it("keeps notes ahead of the first grid beat", () => {
+    const beatGrid = Array.from({ length: 12 }, (_, i) => 1 + i * 0.5);
+    const melody = [["c4", 0], ["d4", 0.4], ["e4", 0.8], ["f4", 1], ["g4", 1.5]]
+      .map(([note, time]) => ({ note: note as string, time: time as number, duration: 0.2 }));
+    const parsed = parseStrudelCode(generateStrudelCode(melody, [], 120, "4/4", { beatGrid }).combined);
+
+    expect(parsed.layers[0].map(note => note.note)).toEqual(["c4", "d4", "e4", "f4", "g4"]);
+    expect(parsed.layers[0][3].time - parsed.layers[0][0].time).toBeCloseTo(1, 5);
+  });
+
+  it("shares a step between notes that quantize onto it", () => {
+    const melody = [["c4", 0], ["d4", 0.05], ["e4", 0.5]]
+      .map(([note, time]) => ({ note: note as string, time: time as number, duration: 0.05 }));
+    const code = generateStrudelCode(melody, [], 120, "4/4");
+
+    expect(code.melody).toContain("[c4 d4]");
+    expect(parseStrudelCode(code.combined).layers[0].map(note => note.note)).toEqual(["c4", "d4", "e4"]);
+  });
+
+  it("applies a preset under explicit layer options", () => {
+    const melody = quarterNotes(scale.slice(0, 4));
+    const code = generateStrudelCode(melody, chords.slice(0, 1), 120, "4/4", {
+      preset: "lofi",
+      layers: { melody: { sound: "piano", effects: { room: 0.2 } } },
+    });
+
+    expect(code.melody).toBe('note("c4 d4 e4 f4").sound("piano").gain(0.7).room(0.2).lpf(1800).delay(0.25)');
+    expect(code.chords).toBe('note("[c3,e3,g3]").sound("gm_epiano1").gain(0.5).room(0.8).lpf(1200)');
+  });
+
+  it("holds drum hits for at most a beat of the grid", () => {
+    const beatGrid = Array.from({ length: 9 }, (_, i) => i);
+    const drums: DrumHit[] = [
+      { drum: "kick", time: 0, velocity: 1, confidence: 1 },
+      { drum: "snare", time: 2, velocity: 1, confidence: 1 },
+      { drum: "kick", time: 3, velocity: 1, confidence: 1 },
+    ];
+
+    expect(generateStrudelCode([], [], 120, "4/4", { beatGrid, drums }).drums).toBe('sound("[bd ~ sd bd]")');
+  });
+
+  it("honours the meter's note value in cpm", () => {
+    const melody = quarterNotes(scale.slice(0, 7));
+    const beatGrid = Array.from({ length: 16 }, (_, i) => i * 0.25);
+
+    expect(parseStrudelCode(generateStrudelCode(melody, [], 120, "7/8").combined).cyclesPerMinute).toBe(34.29);
+    expect(parseStrudelCode(generateStrudelCode(melody, [], 120, "7/8", { beatGrid }).combined).cyclesPerMinute)
+      .toBe(34.29);
+  });
+});
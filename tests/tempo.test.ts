@@ -0,0 +1,47 @@
+import { buildBeatGridFromTempoMap, detectTempoMap, generateStrudelCode } from "../src";
+import { TempoMap } from "../src/types";
+
+const sampleRate = 22050;
+
+// Clicks at the given times (seconds)
+function clicks(times: number[], seconds: number): Float32Array {
+  const data = new Float32Array(sampleRate * seconds);
+  for (const time of times) {
+    const start = Math.round(time * sampleRate);
+    for (let i = 0; i < 300 && start + i < data.length; i++) {
+      data[start + i] += Math.exp(-i / 60) * Math.sin((2 * Math.PI * 1200 * i) / sampleRate);
+    }
+  }
+  return data;
+}
+
+describe("detectTempoMap", () => {
+  it("follows a click track speeding up from 100 to 140 BPM", () => {
+    const times: number[] = [];
+    for (let time = 0.2; time < 30; time += 60 / (100 + (40 * time) / 30)) times.push(time);
+    const bpms = detectTempoMap(clicks(times, 30), sampleRate).map(entry => entry.bpm);
+
+    expect(bpms[0]).toBeLessThan(112);
+    expect(bpms[bpms.length - 1]).toBeGreaterThan(128);
+    bpms.slice(1).forEach((bpm, i) => expect(bpm).toBeGreaterThanOrEqual(bpms[i]));
+  });
+});
+
+describe("warped beat grid", () => {
+  const tempoMap: TempoMap = [{ time: 0, bpm: 100 }, { time: 4, bpm: 140 }];
+  const beatGrid = buildBeatGridFromTempoMap(tempoMap, 6);
+
+  it("shortens the beats as the tempo rises", () => {
+    expect(beatGrid[1] - beatGrid[0]).toBeCloseTo(0.6, 5);
+    expect(beatGrid[beatGrid.length - 1] - beatGrid[beatGrid.length - 2]).toBeCloseTo(60 / 140, 5);
+  });
+
+  it("quantizes notes on the warped beats as straight quarter notes", () => {
+    const melody = ["c4", "d4", "e4", "f4", "g4", "a4", "b4", "c5"]
+      .map((note, i) => ({ note, time: beatGrid[i], duration: beatGrid[i + 1] - beatGrid[i] }));
+    const code = generateStrudelCode(melody, [], 120, "4/4", { beatGrid, tempoMap });
+
+    expect(code.melody).toBe('note("<[c4 d4 e4 f4] [g4 a4 b4 c5]>").sound("piano")');
+    expect(code.combined).toContain("// Tempo changes: 0.0s 100 BPM, 4.0s 140 BPM");
+  });
+});
@@ -0,0 +1,83 @@
+import { extractBass, midiToFrequency, transcribeDrums, transcribePolyphonic } from "../src";
+
+const sampleRate = 22050;
+
+// Harmonic tones at MIDI pitches detuned by some cents, tuned to a reference pitch
+function tones(pitches: { midi: number; cents: number }[], referencePitch: number, harmonics: number): Float32Array {
+  const data = new Float32Array(sampleRate * 2);
+  for (const { midi, cents } of pitches) {
+    const frequency = midiToFrequency(midi, referencePitch) * Math.pow(2, cents / 1200);
+    for (let h = 1; h <= harmonics; h++) {
+      for (let i = 0; i < data.length; i++) {
+        data[i] += (0.3 / h) * Math.sin((2 * Math.PI * frequency * h * i) / sampleRate);
+      }
+    }
+  }
+  return data;
+}
+
+describe("cents deviation", () => {
+  it("is reported on polyphonic notes", () => {
+    const { notes } = transcribePolyphonic(tones([{ midi: 57, cents: 20 }, { midi: 64, cents: 0 }], 432, 4), sampleRate, {
+      referencePitch: 432,
+    });
+
+    expect(notes.map(note => note.note).sort()).toEqual(["a3", "e4"]);
+    expect(notes.find(note => note.note === "a3")?.cents).toBeCloseTo(20, -1);
+    expect(notes.find(note => note.note === "e4")?.cents).toBeCloseTo(0, -1);
+  });
+
+  it("is reported on bass notes", () => {
+    const notes = extractBass(tones([{ midi: 40, cents: -15 }], 432, 1), sampleRate, { referencePitch: 432 });
+
+    expect(notes.map(note => note.note)).toEqual(["e2"]);
+    expect(notes[0].cents).toBeCloseTo(-15, -1);
+  });
+});
+
+describe("bass dynamics", () => {
+  it("gives bass notes velocities from their attack energy", () => {
+    const data = new Float32Array(sampleRate * 2);
+    for (let k = 0; k < 4; k++) {
+      const frequency = midiToFrequency(k % 2 ? 40 : 45);
+      const amplitude = k % 2 ? 0.2 : 0.6;
+      for (let i = (k * data.length) / 4; i < ((k + 1) * data.length) / 4; i++) {
+        data[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+      }
+    }
+    const notes = extractBass(data, sampleRate);
+
+    expect(notes.map(note => note.note)).toEqual(["a2", "e2", "a2", "e2"]);
+    expect(notes.map(note => note.velocity)).toEqual([1, expect.closeTo(0.33, 1), 1, expect.closeTo(0.33, 1)]);
+    expect(notes.every(note => note.articulation)).toBe(true);
+  });
+});
+
+describe("drum transcription", () => {
+  // A kick every half second with a noise burst between them
+  function beat(seconds: number): Float32Array {
+    const data = new Float32Array(sampleRate * seconds);
+    let seed = 1;
+    const noise = () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 2 - 1;
+    for (let t = 0.1; t < seconds - 0.5; t += 0.5) {
+      const kick = Math.round(t * sampleRate);
+      const snare = Math.round((t + 0.25) * sampleRate);
+      for (let i = 0; i < 5000; i++) {
+        data[kick + i] += Math.exp(-i / 800) * Math.sin((2 * Math.PI * 80 * i) / sampleRate);
+        data[snare + i] += 0.2 * Math.exp(-i / 300) * noise();
+      }
+    }
+    return data;
+  }
+
+  it("finds the same hits chunk by chunk as over the whole signal", () => {
+    const data = beat(6);
+    const hits = (chunkDuration?: number) => transcribeDrums(data, sampleRate, { chunkDuration })
+      .map(hit => `${hit.drum}@${hit.time.toFixed(2)}`)
+      .sort();
+
+    expect(hits().filter(hit => hit.startsWith("kick"))).toHaveLength(11);
+    expect(hits().filter(hit => hit.startsWith("snare"))).toHaveLength(11);
+    expect(hits(1.3)).toEqual(hits());
+  });
+});